@@ -1,36 +1,148 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Layout from './components/Layout';
 import Dashboard from './components/Dashboard';
 import Analyze from './components/Analyze';
 import TrainingDB from './components/TrainingDB';
 import History from './components/History';
 import MapView from './components/MapView';
-import { AppView, PlantAnalysis, PlantProfile } from './types';
+import Evaluation from './components/Evaluation';
+import Review from './components/Review';
+import BackupDialog from './components/BackupDialog';
+import { AppView, PlantAnalysis, PlantProfile, Survey } from './types';
+import { hasObservationImage, loadObservationImage, loadWorkspace, syncObservations, syncProfiles, syncSurveys } from './services/storageService';
+import { getSavedActiveSurveyId, saveActiveSurveyId } from './services/surveyService';
+import { BackupData, RestoreMode, applySettings, restoreBackup } from './services/backupService';
+import { createThumbnail } from './services/imageUtils';
+import { ProfileIndexStatus, syncProfileIndex } from './services/profileIndex';
+import { pruneReferenceImageCache } from './services/referenceImages';
+import { combineProfiles, retargetProfileReferences } from './services/profileService';
+import {
+  EMPTY_UNDO_STACK,
+  HistoryEdit,
+  ProfileUpdates,
+  UndoStack,
+  applyFieldChanges,
+  applyProfileChanges,
+  createHistoryEdit,
+  forgetEntries,
+  getActiveHistory,
+  getTrashedHistory,
+  isEmptyEdit,
+  pushEdit,
+  replaceEntries
+} from './services/historyEdits';
+
+const THUMBNAIL_BATCH_SIZE = 12;
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
   const [history, setHistory] = useState<PlantAnalysis[]>([]);
   const [profiles, setProfiles] = useState<PlantProfile[]>([]);
+  const [surveys, setSurveys] = useState<Survey[]>([]);
+  const [activeSurveyId, setActiveSurveyId] = useState<string | null>(getSavedActiveSurveyId());
   const [correctionEntry, setCorrectionEntry] = useState<PlantAnalysis | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoStack>(EMPTY_UNDO_STACK);
+  const [indexStatus, setIndexStatus] = useState<ProfileIndexStatus>({ indexedImages: 0, totalImages: 0, isBuilding: false });
+
+  const [isLoaded, setIsLoaded] = useState(false);
+  const activeHistory = getActiveHistory(history);
+  const trashedHistory = getTrashedHistory(history);
+
+  // Last snapshots written to storage, diffed against new state to persist incrementally.
+  const persistedHistory = useRef<PlantAnalysis[]>([]);
+  const persistedProfiles = useRef<PlantProfile[]>([]);
+  const persistedSurveys = useRef<Survey[]>([]);
+  const isGeneratingThumbnails = useRef(false);
+  const indexRun = useRef(0);
 
   useEffect(() => {
-    const savedHistory = localStorage.getItem('flora_history');
-    const savedProfiles = localStorage.getItem('flora_profiles');
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
-    if (savedProfiles) setProfiles(JSON.parse(savedProfiles));
+    loadWorkspace()
+      .then(({ history, profiles, surveys }) => {
+        persistedHistory.current = history;
+        persistedProfiles.current = profiles;
+        persistedSurveys.current = surveys;
+        setHistory(history);
+        setProfiles(profiles);
+        setSurveys(surveys);
+      })
+      .catch(err => console.error("Failed to load workspace:", err))
+      .finally(() => setIsLoaded(true));
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('flora_history', JSON.stringify(history));
-  }, [history]);
+    if (!isLoaded) return;
+    const prev = persistedHistory.current;
+    persistedHistory.current = history;
+    syncObservations(prev, history).catch(err => console.error("Failed to persist history:", err));
+  }, [history, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const prev = persistedProfiles.current;
+    persistedProfiles.current = profiles;
+    syncProfiles(prev, profiles).catch(err => console.error("Failed to persist profiles:", err));
+  }, [profiles, isLoaded]);
+
+  // Keeps the local similarity index and reference image cache in step with the
+  // training profiles. Only the latest run reports status when edits arrive while
+  // an earlier build is going.
+  useEffect(() => {
+    if (!isLoaded) return;
+    const run = ++indexRun.current;
+    const report = (status: ProfileIndexStatus) => {
+      if (run === indexRun.current) setIndexStatus(status);
+    };
+    pruneReferenceImageCache(profiles);
+    syncProfileIndex(profiles, report)
+      .then(report)
+      .catch(err => console.error("Failed to build profile index:", err));
+  }, [profiles, isLoaded]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const prev = persistedSurveys.current;
+    persistedSurveys.current = surveys;
+    syncSurveys(prev, surveys).catch(err => console.error("Failed to persist surveys:", err));
+  }, [surveys, isLoaded]);
 
+  // Generates missing list thumbnails a few at a time. Covers new, imported and
+  // restored observations alike; a failed thumbnail is stored as '' and not retried.
   useEffect(() => {
-    localStorage.setItem('flora_profiles', JSON.stringify(profiles));
-  }, [profiles]);
+    if (!isLoaded || isGeneratingThumbnails.current) return;
+    const pending = history
+      .filter(item => hasObservationImage(item) && item.thumbnailUrl === undefined)
+      .slice(0, THUMBNAIL_BATCH_SIZE);
+    if (pending.length === 0) return;
+
+    isGeneratingThumbnails.current = true;
+    Promise.all(pending.map(item => loadObservationImage(item).then(createThumbnail).catch(() => '')))
+      .then(thumbnails => {
+        const byId = new Map(pending.map((item, i) => [item.id, thumbnails[i]]));
+        isGeneratingThumbnails.current = false;
+        setHistory(prev => prev.map(item => byId.has(item.id) && item.thumbnailUrl === undefined
+          ? { ...item, thumbnailUrl: byId.get(item.id) }
+          : item));
+      });
+  }, [history, isLoaded]);
 
   const handleAnalysisResult = (result: PlantAnalysis) => {
-    setHistory(prev => [result, ...prev]);
+    const entry = activeSurveyId && !result.surveyId ? { ...result, surveyId: activeSurveyId } : result;
+    setHistory(prev => [entry, ...prev]);
+  };
+
+  const selectActiveSurvey = (id: string | null) => {
+    saveActiveSurveyId(id);
+    setActiveSurveyId(id);
+  };
+
+  const addSurvey = (survey: Survey) => {
+    setSurveys(prev => [survey, ...prev]);
+  };
+
+  const updateSurvey = (id: string, updates: Partial<Survey>) => {
+    setSurveys(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
   };
 
   const addProfile = (profile: PlantProfile) => {
@@ -45,12 +157,73 @@ const App: React.FC = () => {
     setProfiles(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
   };
 
-  const clearHistory = () => {
-    setHistory([]);
+  // Folds the source profiles into the target and re-points every observation that
+  // referenced them. Undo restores the source profiles along with the references.
+  const mergeProfiles = (targetId: string, sourceIds: string[]) => {
+    const target = profiles.find(p => p.id === targetId);
+    const sources = profiles.filter(p => sourceIds.includes(p.id) && p.id !== targetId);
+    if (!target || sources.length === 0) return;
+
+    const merged = combineProfiles(target, sources);
+    const removed = new Set(sources.map(p => p.id));
+    editHistory(
+      `Merged ${sources.map(p => p.name).join(', ')} into ${target.name}`,
+      history.flatMap(entry => retargetProfileReferences(entry, removed, merged) || []),
+      { updated: [merged], removedIds: Array.from(removed) }
+    );
   };
 
+  // Replaces the visible log; trashed entries are not shown to callers so they are carried over.
   const updateHistory = (newHistory: PlantAnalysis[]) => {
-    setHistory(newHistory);
+    const ids = new Set(newHistory.map(item => item.id));
+    setHistory(prev => [...newHistory, ...getTrashedHistory(prev).filter(item => !ids.has(item.id))]);
+  };
+
+  const editHistory = (label: string, updated: PlantAnalysis[], profileUpdates: ProfileUpdates = {}) => {
+    const edit = createHistoryEdit(label, history, updated, profiles, profileUpdates);
+    if (isEmptyEdit(edit)) return;
+    setUndoStack(prev => pushEdit(prev, edit));
+    setHistory(prev => replaceEntries(prev, updated));
+    if (edit.profiles.length > 0) setProfiles(prev => applyProfileChanges(prev, edit.profiles, 'after'));
+  };
+
+  // Undo and redo write back only the fields the edit changed.
+  const applyHistoryEdit = (edit: HistoryEdit, side: 'before' | 'after') => {
+    setHistory(prev => applyFieldChanges(prev, edit.entries, side));
+    if (edit.profiles.length > 0) setProfiles(prev => applyProfileChanges(prev, edit.profiles, side));
+  };
+
+  const undoHistoryEdit = () => {
+    const edit = undoStack.undo[undoStack.undo.length - 1];
+    if (!edit) return;
+    setUndoStack({ undo: undoStack.undo.slice(0, -1), redo: [...undoStack.redo, edit] });
+    applyHistoryEdit(edit, 'before');
+  };
+
+  const redoHistoryEdit = () => {
+    const edit = undoStack.redo[undoStack.redo.length - 1];
+    if (!edit) return;
+    setUndoStack({ undo: [...undoStack.undo, edit], redo: undoStack.redo.slice(0, -1) });
+    applyHistoryEdit(edit, 'after');
+  };
+
+  const purgeHistory = (ids: string[]) => {
+    const purged = new Set(ids);
+    setHistory(prev => prev.filter(item => !purged.has(item.id)));
+    setUndoStack(prev => forgetEntries(prev, purged));
+  };
+
+  const handleRestore = (backup: BackupData, mode: RestoreMode) => {
+    const { data, report } = restoreBackup({ profiles, history, surveys }, backup, mode);
+    setProfiles(data.profiles);
+    setHistory(data.history);
+    setSurveys(data.surveys);
+    if (mode === 'replace') {
+      setUndoStack(EMPTY_UNDO_STACK);
+      applySettings(backup.settings);
+      setActiveSurveyId(getSavedActiveSurveyId());
+    }
+    return report;
   };
 
   const handleStartCorrection = (entry: PlantAnalysis) => {
@@ -58,44 +231,86 @@ const App: React.FC = () => {
     setCurrentView(AppView.ANALYZE);
   };
 
-  const handleCorrectionComplete = (updatedEntry: PlantAnalysis) => {
-    setHistory(prev => prev.map(item => item.id === updatedEntry.id ? updatedEntry : item));
+  const handleCorrectionComplete = (updatedEntry: PlantAnalysis, trainingProfile?: PlantProfile) => {
+    editHistory(`Corrected ${updatedEntry.name}`, [updatedEntry], { updated: trainingProfile ? [trainingProfile] : [] });
     setCorrectionEntry(null);
   };
 
   return (
-    <Layout currentView={currentView} onViewChange={setCurrentView}>
-      {currentView === AppView.DASHBOARD && (
-        <Dashboard history={history} />
+    <Layout currentView={currentView} onViewChange={setCurrentView} onOpenBackup={() => setShowBackup(true)}>
+      {!isLoaded && (
+        <div className="py-20 flex flex-col items-center justify-center text-slate-400">
+          <div className="w-10 h-10 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin mb-4"></div>
+          <p className="font-medium">Loading workspace...</p>
+        </div>
       )}
-      {currentView === AppView.ANALYZE && (
+      {isLoaded && currentView === AppView.DASHBOARD && (
+        <Dashboard history={activeHistory} surveys={surveys} />
+      )}
+      {isLoaded && currentView === AppView.ANALYZE && (
         <Analyze 
           profiles={profiles} 
           onResult={handleAnalysisResult} 
           correctionEntry={correctionEntry}
           onCorrectionComplete={handleCorrectionComplete}
           onCancelCorrection={() => setCorrectionEntry(null)}
-          onAddProfile={addProfile}
+          surveys={surveys}
+          activeSurveyId={activeSurveyId}
+          onSelectSurvey={selectActiveSurvey}
+          onCreateSurvey={addSurvey}
+          onUpdateSurvey={updateSurvey}
         />
       )}
-      {currentView === AppView.TRAINING && (
+      {isLoaded && currentView === AppView.TRAINING && (
         <TrainingDB 
           profiles={profiles} 
+          history={activeHistory}
+          indexStatus={indexStatus}
           onAdd={addProfile} 
           onDelete={deleteProfile} 
           onEdit={editProfile} 
+          onMerge={mergeProfiles}
         />
       )}
-      {currentView === AppView.HISTORY && (
+      {isLoaded && currentView === AppView.HISTORY && (
         <History 
-          history={history} 
-          onClear={clearHistory} 
+          history={activeHistory} 
+          trashed={trashedHistory}
+          profiles={profiles}
+          surveys={surveys}
+          undoLabel={undoStack.undo[undoStack.undo.length - 1]?.label}
+          redoLabel={undoStack.redo[undoStack.redo.length - 1]?.label}
           onUpdateHistory={updateHistory}
+          onEditEntries={editHistory}
+          onPurge={purgeHistory}
+          onUndo={undoHistoryEdit}
+          onRedo={redoHistoryEdit}
           onStartCorrection={handleStartCorrection}
         />
       )}
-      {currentView === AppView.MAP && (
-        <MapView history={history} />
+      {isLoaded && currentView === AppView.MAP && (
+        <MapView history={activeHistory} surveys={surveys} />
+      )}
+      {isLoaded && currentView === AppView.REVIEW && (
+        <Review
+          history={activeHistory}
+          profiles={profiles}
+          undoLabel={undoStack.undo[undoStack.undo.length - 1]?.label}
+          onEditEntries={editHistory}
+          onUndo={undoHistoryEdit}
+        />
+      )}
+      {isLoaded && currentView === AppView.EVALUATION && (
+        <Evaluation profiles={profiles} />
+      )}
+      {showBackup && (
+        <BackupDialog
+          profiles={profiles}
+          history={history}
+          surveys={surveys}
+          onRestore={handleRestore}
+          onClose={() => setShowBackup(false)}
+        />
       )}
     </Layout>
   );
@@ -1,15 +1,40 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzePlantWithContext } from '../services/geminiService';
-import { PlantAnalysis, PlantProfile } from '../types';
+import { analyzePlantWithContext, getActiveProvider, getActiveProviderId, setActiveProviderId, PROVIDERS } from '../services/identificationService';
+import { applyAuditedUpdate, createAuditEvent } from '../services/auditService';
+import { createReviewRecord } from '../services/reviewService';
+import { DEFAULT_SAMPLING_OPTIONS, FrameSamplingMode, FrameSamplingOptions, computeSignature, createSignatureContext, formatFrameTime, sampleVideoFrames, signatureDistance } from '../services/videoSampler';
+import { BatchQueue, BatchQueueSnapshot, createBatchQueue } from '../services/batchQueue';
+import { AnalysisResult, IdentificationProviderId, MatchCandidate, PlantAnalysis, PlantProfile, Survey, VideoSpeciesDetection } from '../types';
+import SurveyPanel from './SurveyPanel';
+import ReferenceBudgetSettings from './ReferenceBudgetSettings';
+import IdentificationErrorBanner from './IdentificationErrorBanner';
+import ResultCacheSettings from './ResultCacheSettings';
+import ImagePreprocessSettings from './ImagePreprocessSettings';
+import useObservationImage from './useObservationImage';
+import { findMatchingProfile, searchProfiles } from '../services/profileService';
+import { addProfileImages } from '../services/profileImages';
+import { filterImageFiles, isImageFile, preprocessImage } from '../services/imagePreprocessing';
+import { IdentificationError, createEmptyDatabaseError, isTransientIdentificationError, toIdentificationError } from '../services/identificationErrors';
 
 interface AnalyzeProps {
   profiles: PlantProfile[];
   onResult: (result: PlantAnalysis) => void;
   correctionEntry?: PlantAnalysis | null;
-  onCorrectionComplete?: (updatedEntry: PlantAnalysis) => void;
+  // The training profile is the one the correction created or added the photo to.
+  onCorrectionComplete?: (updatedEntry: PlantAnalysis, trainingProfile?: PlantProfile) => void;
   onCancelCorrection?: () => void;
-  onAddProfile?: (profile: PlantProfile) => void;
+  surveys: Survey[];
+  activeSurveyId: string | null;
+  onSelectSurvey: (id: string | null) => void;
+  onCreateSurvey: (survey: Survey) => void;
+  onUpdateSurvey: (id: string, updates: Partial<Survey>) => void;
+}
+
+interface SessionTallyEntry {
+  name: string;
+  isInvasive: boolean;
+  count: number;
 }
 
 const Analyze: React.FC<AnalyzeProps> = ({ 
@@ -18,23 +43,60 @@ const Analyze: React.FC<AnalyzeProps> = ({
   correctionEntry, 
   onCorrectionComplete,
   onCancelCorrection,
-  onAddProfile
+  surveys,
+  activeSurveyId,
+  onSelectSurvey,
+  onCreateSurvey,
+  onUpdateSurvey
 }) => {
   const [source, setSource] = useState<'upload' | 'folder' | 'video' | 'camera' | 'correction'>(
     correctionEntry ? 'correction' : 'upload'
   );
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [batchProgress, setBatchProgress] = useState<{ current: number; total: number } | null>(null);
+  const [batch, setBatch] = useState<BatchQueueSnapshot<File> | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(3);
+  const batchQueueRef = useRef<BatchQueue | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<{ error: IdentificationError; retry?: () => void } | null>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [analysisTimer, setAnalysisTimer] = useState<number>(0);
   const [showDetection, setShowDetection] = useState(true);
   const [lastResult, setLastResult] = useState<PlantAnalysis | null>(null);
+  const [providerId, setProviderId] = useState<IdentificationProviderId>(getActiveProviderId());
+
+  // Video sampling state
+  const [videoOptions, setVideoOptions] = useState<FrameSamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+  const [videoProgress, setVideoProgress] = useState<{ time: number; duration: number; frames: number } | null>(null);
+  const [videoDetections, setVideoDetections] = useState<VideoSpeciesDetection[] | null>(null);
+  const videoCancelRef = useRef(false);
+
+  // Live camera auto-scan state
+  const [isAutoScanning, setIsAutoScanning] = useState(false);
+  const [autoScanSettings, setAutoScanSettings] = useState({ intervalMs: 3000, confidenceThreshold: 0.8, duplicateThreshold: 8 });
+  const [autoScanStats, setAutoScanStats] = useState({ sampled: 0, skipped: 0, recorded: 0 });
+  const [autoScanTally, setAutoScanTally] = useState<Record<string, SessionTallyEntry>>({});
+  const [autoScanBusy, setAutoScanBusy] = useState(false);
+  const autoScanIntervalRef = useRef<number | null>(null);
+  const autoScanTickRef = useRef<() => void>(() => {});
+  const autoScanInFlightRef = useRef(false);
+  const lastSignatureRef = useRef<Uint8Array | null>(null);
+  const lastRecordedSpeciesRef = useRef<string | null>(null);
+  const wasAboveThresholdRef = useRef(false);
+  const signatureCtxRef = useRef<CanvasRenderingContext2D | null>(null);
 
   // Correction state
   const [correctedName, setCorrectedName] = useState(correctionEntry?.name || '');
   const [correctedScientificName, setCorrectedScientificName] = useState(correctionEntry?.scientificName || '');
   const [correctedIsInvasive, setCorrectedIsInvasive] = useState(correctionEntry?.isInvasive || false);
+  const [addToTraining, setAddToTraining] = useState(true);
+  const { imageUrl: correctionImageUrl, isLoading: isCorrectionImageLoading } = useObservationImage(correctionEntry);
+  // Corrections wait for the stored photo when it is going into a profile.
+  const isWaitingForCorrectionImage = addToTraining && isCorrectionImageLoading;
+  const [showProfileSuggestions, setShowProfileSuggestions] = useState(false);
+  const correctionAlternates = (correctionEntry?.candidates || [])
+    .filter(c => c.profileId !== correctionEntry?.matchedProfileId);
+  const correctionProfile = findMatchingProfile(profiles, correctedName, correctedScientificName);
+  const profileSuggestions = searchProfiles(profiles, correctedName, 6).filter(p => p.id !== correctionProfile?.id);
 
   useEffect(() => {
     if (correctionEntry) {
@@ -42,6 +104,7 @@ const Analyze: React.FC<AnalyzeProps> = ({
       setCorrectedName(correctionEntry.name);
       setCorrectedScientificName(correctionEntry.scientificName);
       setCorrectedIsInvasive(correctionEntry.isInvasive);
+      setAddToTraining(true);
     }
   }, [correctionEntry]);
   
@@ -58,6 +121,15 @@ const Analyze: React.FC<AnalyzeProps> = ({
     return () => stopCamera();
   }, [source]);
 
+  // Leaving the view stops background work: its pause and cancel controls go with it.
+  // Requests already in flight finish and are still logged.
+  useEffect(() => {
+    return () => {
+      batchQueueRef.current?.cancel();
+      videoCancelRef.current = true;
+    };
+  }, []);
+
   const startCamera = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
@@ -68,6 +140,7 @@ const Analyze: React.FC<AnalyzeProps> = ({
   };
 
   const stopCamera = () => {
+    stopAutoScan();
     if (videoRef.current?.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
       stream.getTracks().forEach(track => track.stop());
@@ -75,9 +148,136 @@ const Analyze: React.FC<AnalyzeProps> = ({
     }
   };
 
-  const captureAndAnalyze = async (imageSrc?: string): Promise<void> => {
+  const stopAutoScan = () => {
+    if (autoScanIntervalRef.current) {
+      clearInterval(autoScanIntervalRef.current);
+      autoScanIntervalRef.current = null;
+    }
+    lastSignatureRef.current = null;
+    lastRecordedSpeciesRef.current = null;
+    wasAboveThresholdRef.current = false;
+    setIsAutoScanning(false);
+  };
+
+  const startAutoScan = () => {
     if (profiles.length === 0) {
-      setError("Training Database is empty. Identification requires at least one profile.");
+      setFailure({ error: createEmptyDatabaseError() });
+      return;
+    }
+    if (!signatureCtxRef.current) signatureCtxRef.current = createSignatureContext();
+
+    setError(null);
+    setFailure(null);
+    setAutoScanStats({ sampled: 0, skipped: 0, recorded: 0 });
+    setAutoScanTally({});
+    lastSignatureRef.current = null;
+    lastRecordedSpeciesRef.current = null;
+    wasAboveThresholdRef.current = false;
+    setIsAutoScanning(true);
+
+    if (autoScanIntervalRef.current) clearInterval(autoScanIntervalRef.current);
+    autoScanIntervalRef.current = window.setInterval(() => autoScanTickRef.current(), autoScanSettings.intervalMs);
+  };
+
+  // Samples one camera frame. Frames nearly identical to the last analyzed one are
+  // skipped, and a result is only recorded when it is a new species or confidence
+  // rises past the threshold, so holding the camera on one plant saves it once.
+  const autoScanTick = async () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const signatureCtx = signatureCtxRef.current;
+    if (autoScanInFlightRef.current || !video || !canvas || !signatureCtx || !video.videoWidth) return;
+
+    const signature = computeSignature(signatureCtx, video);
+    setAutoScanStats(prev => ({ ...prev, sampled: prev.sampled + 1 }));
+    if (lastSignatureRef.current && signatureDistance(signature, lastSignatureRef.current) < autoScanSettings.duplicateThreshold) {
+      setAutoScanStats(prev => ({ ...prev, skipped: prev.skipped + 1 }));
+      return;
+    }
+    lastSignatureRef.current = signature;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    ctx.drawImage(video, 0, 0);
+    const frame = canvas.toDataURL('image/jpeg');
+
+    autoScanInFlightRef.current = true;
+    setAutoScanBusy(true);
+    const startTime = performance.now();
+
+    try {
+      const result = await analyzePlantWithContext(frame, profiles);
+      const durationInSeconds = (performance.now() - startTime) / 1000;
+      // Discard results that arrive after the scan was stopped.
+      if (!autoScanIntervalRef.current) return;
+      const speciesKey = result.matchedProfileId && result.matchedProfileId !== 'unknown' ? result.matchedProfileId : result.name;
+
+      setAutoScanTally(prev => ({
+        ...prev,
+        [speciesKey]: { name: result.name, isInvasive: result.isInvasive, count: (prev[speciesKey]?.count || 0) + 1 }
+      }));
+
+      const isNewSpecies = speciesKey !== lastRecordedSpeciesRef.current;
+      const isAboveThreshold = result.confidence >= autoScanSettings.confidenceThreshold;
+      const crossedThreshold = isAboveThreshold && !wasAboveThresholdRef.current;
+      wasAboveThresholdRef.current = isAboveThreshold;
+      if (crossedThreshold || isNewSpecies) {
+        lastRecordedSpeciesRef.current = speciesKey;
+        const coords = await getCoordinates();
+        const entry = createAnalysisEntry(result, frame, durationInSeconds, coords);
+        onResult(entry);
+        setCapturedImage(frame);
+        setLastResult({ ...entry, id: 'preview' });
+        setAutoScanStats(prev => ({ ...prev, recorded: prev.recorded + 1 }));
+      }
+    } catch (err: any) {
+      console.error("Auto-scan Error:", err);
+      setFailure({ error: toIdentificationError(err) });
+    } finally {
+      autoScanInFlightRef.current = false;
+      setAutoScanBusy(false);
+    }
+  };
+
+  autoScanTickRef.current = autoScanTick;
+
+  const getCoordinates = () => {
+    return new Promise<{lat: number, lng: number} | undefined>((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+        () => resolve(undefined),
+        { timeout: 3000 }
+      );
+    });
+  };
+
+  const createAnalysisEntry = (
+    result: AnalysisResult,
+    imageUrl: string,
+    analysisTime: number,
+    coordinates?: { lat: number; lng: number }
+  ): PlantAnalysis => ({
+    id: Math.random().toString(36).substr(2, 9),
+    name: result.name,
+    scientificName: result.scientificName,
+    isInvasive: result.isInvasive,
+    confidence: result.confidence,
+    timestamp: Date.now(),
+    analysisTime,
+    coordinates,
+    imageUrl,
+    matchedProfileId: result.matchedProfileId,
+    detectedObjects: result.detectedObjects,
+    candidates: result.candidates,
+    imageHash: result.imageHash,
+    changeLog: [createAuditEvent(`Identified via ${getActiveProvider().label}${result.fromCache ? ' (cached result)' : ''}`)]
+  });
+
+  const captureAndAnalyze = async (imageSrc?: string, imageHash?: string): Promise<void> => {
+    if (profiles.length === 0) {
+      setFailure({ error: createEmptyDatabaseError() });
       return;
     }
 
@@ -98,6 +298,7 @@ const Analyze: React.FC<AnalyzeProps> = ({
     setCapturedImage(finalImage);
     setIsAnalyzing(true);
     setError(null);
+    setFailure(null);
     setAnalysisTimer(0);
     const startTime = performance.now();
 
@@ -107,115 +308,250 @@ const Analyze: React.FC<AnalyzeProps> = ({
     }, 10);
 
     try {
-      const coords = await new Promise<{lat: number, lng: number} | undefined>((resolve) => {
-        navigator.geolocation.getCurrentPosition(
-          (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
-          () => resolve(undefined),
-          { timeout: 3000 }
-        );
-      });
+      const coords = await getCoordinates();
 
-      const result = await analyzePlantWithContext(finalImage, profiles);
-      const endTime = performance.now();
-      
-      // Calculate duration in seconds
-      const durationInSeconds = (endTime - startTime) / 1000;
-
-      onResult({
-        id: Math.random().toString(36).substr(2, 9),
-        name: result.name,
-        scientificName: result.scientificName,
-        isInvasive: result.isInvasive,
-        confidence: result.confidence,
-        timestamp: Date.now(),
-        analysisTime: durationInSeconds,
-        coordinates: coords,
-        imageUrl: finalImage,
-        matchedProfileId: result.matchedProfileId,
-        detectedObjects: result.detectedObjects
-      });
-
-      setLastResult({
-        id: 'preview',
-        name: result.name,
-        scientificName: result.scientificName,
-        isInvasive: result.isInvasive,
-        confidence: result.confidence,
-        timestamp: Date.now(),
-        analysisTime: durationInSeconds,
-        imageUrl: finalImage,
-        detectedObjects: result.detectedObjects
-      });
+      const result = await analyzePlantWithContext(finalImage, profiles, { imageHash });
+      const durationInSeconds = (performance.now() - startTime) / 1000;
 
+      const entry = createAnalysisEntry(result, finalImage, durationInSeconds, coords);
+      onResult(entry);
+      setLastResult({ ...entry, id: 'preview' });
     } catch (err: any) {
       console.error("Analysis Error:", err);
-      setError(err.message || "Failed to analyze plant");
+      const image = finalImage;
+      setFailure({ error: toIdentificationError(err), retry: () => captureAndAnalyze(image, imageHash) });
     } finally {
-      if (!batchProgress || batchProgress.current === batchProgress.total) {
-        if (timerRef.current) {
-          clearInterval(timerRef.current);
-          timerRef.current = null;
-        }
-        setIsAnalyzing(false);
+      if (timerRef.current) {
+        clearInterval(timerRef.current);
+        timerRef.current = null;
       }
+      setIsAnalyzing(false);
     }
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
-    
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!isImageFile(file)) {
+      setError(`${file.name} is not an image.`);
+      return;
+    }
+
+    try {
+      const prepared = await preprocessImage(file);
+      await captureAndAnalyze(prepared.dataUrl, prepared.hash);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleFolderUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = filterImageFiles(Array.from(e.target.files || []) as File[]);
+    e.target.value = '';
+    if (files.length === 0) {
+      setError("The selected folder contains no images.");
+      return;
+    }
+
+    if (profiles.length === 0) {
+      setFailure({ error: createEmptyDatabaseError() });
+      return;
+    }
+
+    setError(null);
+    setFailure(null);
+    batchQueueRef.current?.cancel();
+    // Folder photos share one location fix instead of querying it per image.
+    const coords = await getCoordinates();
+
+    const queue = createBatchQueue<File>(
+      files.map(file => ({ label: file.webkitRelativePath || file.name, payload: file })),
+      {
+        concurrency: batchConcurrency,
+        maxRetries: 5,
+        baseDelayMs: 2000,
+        maxDelayMs: 60000,
+        isRetryable: isTransientIdentificationError,
+        onChange: setBatch,
+        worker: async (file) => {
+          const { dataUrl: image, hash } = await preprocessImage(file);
+          const startTime = performance.now();
+          const result = await analyzePlantWithContext(image, profiles, { imageHash: hash });
+          const entry = createAnalysisEntry(result, image, (performance.now() - startTime) / 1000, coords);
+          onResult(entry);
+          setCapturedImage(image);
+          setLastResult({ ...entry, id: 'preview' });
+        }
+      }
+    );
+    batchQueueRef.current = queue;
+    queue.start();
+  };
+
+  const handleVideoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (profiles.length === 0) {
+      setFailure({ error: createEmptyDatabaseError() });
+      return;
+    }
+
+    const videoId = Math.random().toString(36).substr(2, 9);
+    const detections = new Map<string, VideoSpeciesDetection>();
+    let frameCount = 0;
+    let failedFrames = 0;
+    let lastFrameError: unknown = null;
+
+    videoCancelRef.current = false;
     setIsAnalyzing(true);
     setError(null);
-    setBatchProgress({ current: 0, total: files.length });
-
-    const fileList = Array.from(files);
-    
-    // Process each file sequentially to ensure every photo is looked at
-    for (let i = 0; i < fileList.length; i++) {
-      setBatchProgress({ current: i + 1, total: fileList.length });
-      const file = fileList[i];
-      
-      const base64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = (event) => resolve(event.target?.result as string);
-        // Cast 'file' as any to satisfy the compiler when it incorrectly infers it as 'unknown'
-        reader.readAsDataURL(file as any);
+    setFailure(null);
+    setVideoDetections(null);
+    setAnalysisTimer(0);
+
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = window.setInterval(() => {
+      setAnalysisTimer(prev => prev + 10);
+    }, 10);
+
+    try {
+      const coords = await getCoordinates();
+
+      await sampleVideoFrames(file, videoOptions, async (frame, duration) => {
+        frameCount++;
+        setVideoProgress({ time: frame.time, duration, frames: frameCount });
+        const startTime = performance.now();
+
+        try {
+          const result = await analyzePlantWithContext(frame.dataUrl, profiles);
+          const durationInSeconds = (performance.now() - startTime) / 1000;
+
+          const entry: PlantAnalysis = {
+            ...createAnalysisEntry(result, frame.dataUrl, durationInSeconds, coords),
+            videoSource: { videoId, fileName: file.name, frameTime: frame.time }
+          };
+          onResult(entry);
+          setCapturedImage(frame.dataUrl);
+          setLastResult({ ...entry, id: 'preview' });
+
+          const key = result.matchedProfileId && result.matchedProfileId !== 'unknown' ? result.matchedProfileId : result.name;
+          const existing = detections.get(key);
+          if (existing) {
+            existing.frameTimes.push(frame.time);
+            existing.maxConfidence = Math.max(existing.maxConfidence, result.confidence);
+          } else {
+            detections.set(key, {
+              name: result.name,
+              scientificName: result.scientificName,
+              isInvasive: result.isInvasive,
+              matchedProfileId: result.matchedProfileId,
+              frameTimes: [frame.time],
+              maxConfidence: result.confidence
+            });
+          }
+        } catch (err: any) {
+          console.error(`Frame ${formatFrameTime(frame.time)} failed:`, err);
+          failedFrames++;
+          lastFrameError = err;
+        }
+
+        return !videoCancelRef.current;
       });
 
-      await captureAndAnalyze(base64);
+      setVideoDetections(Array.from(detections.values()).sort((a, b) => b.frameTimes.length - a.frameTimes.length));
+      if (failedFrames > 0 && failedFrames === frameCount) {
+        setFailure({ error: toIdentificationError(lastFrameError) });
+      } else if (failedFrames > 0) {
+        setError(`${failedFrames} of ${frameCount} sampled frames could not be analyzed.`);
+      }
+    } catch (err: any) {
+      console.error("Video Analysis Error:", err);
+      setFailure({ error: toIdentificationError(err) });
+    } finally {
+      if (timerRef.current) {
+        clearInterval(timerRef.current);
+        timerRef.current = null;
+      }
+      setVideoProgress(null);
+      setIsAnalyzing(false);
     }
+  };
+
+  const batchCounts = batch ? batch.items.reduce((acc, item) => {
+    acc[item.status]++;
+    return acc;
+  }, { pending: 0, running: 0, done: 0, failed: 0, cancelled: 0 }) : null;
 
-    setBatchProgress(null);
-    setIsAnalyzing(false);
+  const handleProviderChange = (id: IdentificationProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
   };
 
-  const submitCorrection = () => {
-    if (!correctionEntry || !onCorrectionComplete) return;
+  const activeProvider = PROVIDERS.find(p => p.id === providerId) || PROVIDERS[0];
 
-    const updatedEntry: PlantAnalysis = {
-      ...correctionEntry,
-      correctedData: {
-        name: correctedName,
-        scientificName: correctedScientificName,
-        isInvasive: correctedIsInvasive
-      }
+  // Files the corrected photo under its species: appended to the existing profile
+  // when there is one, otherwise seeding a new profile. Returns the profile to save,
+  // if any, so it becomes part of the same undoable edit as the correction.
+  const getCorrectionTrainingProfile = (entry: PlantAnalysis, profile: PlantProfile | undefined): PlantProfile | undefined => {
+    if (!addToTraining || !correctionImageUrl) return undefined;
+    if (profile) {
+      return profile.images.includes(correctionImageUrl) ? undefined : { ...profile, ...addProfileImages(profile, [correctionImageUrl]) };
+    }
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      name: correctedName.trim(),
+      scientificName: correctedScientificName.trim(),
+      isInvasive: correctedIsInvasive,
+      images: [correctionImageUrl],
+      description: `Correction-based profile generated from observation ${entry.id}.`,
+      dateCreated: Date.now()
     };
+  };
+
+  const submitCorrection = () => {
+    if (!correctionEntry || !onCorrectionComplete || !correctedName.trim() || isWaitingForCorrectionImage) return;
 
-    // Refine model by adding to Training DB if requested
-    if (onAddProfile) {
-      onAddProfile({
-        id: Math.random().toString(36).substr(2, 9),
-        name: correctedName,
-        scientificName: correctedScientificName,
+    // Built first so a newly created profile's id can be linked from the correction.
+    const trainingProfile = getCorrectionTrainingProfile(correctionEntry, correctionProfile);
+    const linkedProfile = correctionProfile || trainingProfile;
+    const updatedEntry = applyAuditedUpdate(correctionEntry, {
+      correctedData: {
+        name: correctedName.trim(),
+        scientificName: correctedScientificName.trim(),
         isInvasive: correctedIsInvasive,
-        images: [correctionEntry.imageUrl],
-        description: `Correction-based profile generated from observation ${correctionEntry.id}.`,
-        dateCreated: Date.now()
-      });
-    }
+        ...(linkedProfile ? { matchedProfileId: linkedProfile.id } : {})
+      },
+      review: createReviewRecord('reassigned')
+    }, 'Corrected identification');
+
+    onCorrectionComplete(updatedEntry, trainingProfile);
+  };
 
-    onCorrectionComplete(updatedEntry);
+  const selectCorrectionProfile = (profile: PlantProfile) => {
+    setCorrectedName(profile.name);
+    setCorrectedScientificName(profile.scientificName);
+    setCorrectedIsInvasive(profile.isInvasive);
+    setShowProfileSuggestions(false);
+  };
+
+  // Alternates already exist as profiles, so picking one rewrites the record and
+  // at most adds the photo to that profile.
+  const pickCandidate = (candidate: MatchCandidate) => {
+    if (!correctionEntry || !onCorrectionComplete || isWaitingForCorrectionImage) return;
+
+    onCorrectionComplete(applyAuditedUpdate(correctionEntry, {
+      correctedData: {
+        name: candidate.name,
+        scientificName: candidate.scientificName,
+        isInvasive: candidate.isInvasive,
+        matchedProfileId: candidate.profileId
+      },
+      review: createReviewRecord('reassigned')
+    }, `Picked alternate candidate (${(candidate.confidence * 100).toFixed(0)}%)`),
+      getCorrectionTrainingProfile(correctionEntry, profiles.find(p => p.id === candidate.profileId)));
   };
 
   return (
@@ -232,8 +568,8 @@ const Analyze: React.FC<AnalyzeProps> = ({
             key={item.id}
             onClick={() => {
               setSource(item.id as any);
-              setBatchProgress(null);
               setError(null);
+              setFailure(null);
               if (item.id !== 'correction' && onCancelCorrection) {
                 onCancelCorrection();
               }
@@ -248,26 +584,59 @@ const Analyze: React.FC<AnalyzeProps> = ({
         ))}
       </div>
 
+      <div className="bg-white px-4 py-3 rounded-xl shadow-sm border border-slate-200 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <i className={`fas ${activeProvider.requiresNetwork ? 'fa-cloud' : 'fa-plug-circle-xmark'} text-emerald-600`}></i>
+            <div>
+              <p className="text-sm font-bold text-slate-800">Identification Backend</p>
+              <p className="text-xs text-slate-500">{activeProvider.description}</p>
+            </div>
+          </div>
+          <select
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value as IdentificationProviderId)}
+            disabled={isAnalyzing}
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-emerald-500 outline-none"
+          >
+            {PROVIDERS.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        {providerId === 'gemini' && <ReferenceBudgetSettings profiles={profiles} disabled={isAnalyzing} />}
+        <ResultCacheSettings disabled={isAnalyzing} />
+        <ImagePreprocessSettings disabled={isAnalyzing} />
+      </div>
+
+      <SurveyPanel
+        surveys={surveys}
+        activeSurveyId={activeSurveyId}
+        onSelect={onSelectSurvey}
+        onCreate={onCreateSurvey}
+        onUpdate={onUpdateSurvey}
+      />
+
       <div className="bg-white rounded-2xl shadow-lg border border-slate-200 overflow-hidden min-h-[400px] flex flex-col items-center justify-center p-8 relative">
         {isAnalyzing && (
           <div className="absolute inset-0 z-20 bg-emerald-900/60 backdrop-blur-md flex flex-col items-center justify-center text-white p-6 text-center">
             <div className="w-16 h-16 border-4 border-emerald-400 border-t-transparent rounded-full animate-spin mb-4 shadow-lg shadow-emerald-500/20"></div>
             <p className="text-2xl font-bold">
-              {batchProgress 
-                ? `Batch Analysis: ${batchProgress.current} / ${batchProgress.total}`
+              {videoProgress
+                ? `Video Sampling: ${formatFrameTime(videoProgress.time)} / ${formatFrameTime(videoProgress.duration)}`
                 : 'Matching Database...'}
             </p>
             <p className="text-emerald-100 mt-2">
-              {batchProgress 
-                ? `Processing specimen ${batchProgress.current} of ${batchProgress.total} in folder`
+              {videoProgress
+                ? `Analyzing frame ${videoProgress.frames} (${videoOptions.mode === 'scene' ? 'scene change' : `every ${videoOptions.intervalSeconds}s`})`
                 : 'Comparing against local training profiles...'}
             </p>
-            
-            {batchProgress && (
+
+            {videoProgress && (
               <div className="w-64 bg-emerald-800 h-2 rounded-full mt-6 overflow-hidden border border-white/10">
                 <div 
                   className="bg-emerald-400 h-full transition-all duration-300 ease-out"
-                  style={{ width: `${(batchProgress.current / batchProgress.total) * 100}%` }}
+                  style={{ width: `${(videoProgress.time / videoProgress.duration) * 100}%` }}
                 ></div>
               </div>
             )}
@@ -275,6 +644,16 @@ const Analyze: React.FC<AnalyzeProps> = ({
             <div className="mt-8 px-6 py-2 bg-emerald-800/80 rounded-full font-mono text-xl border border-white/5">
               {(analysisTimer / 1000).toFixed(2)}s
             </div>
+
+            {videoProgress && (
+              <button
+                onClick={() => { videoCancelRef.current = true; }}
+                className="mt-6 px-6 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm font-bold transition-colors flex items-center gap-2"
+              >
+                <i className="fas fa-stop"></i>
+                Stop Sampling
+              </button>
+            )}
           </div>
         )}
 
@@ -287,11 +666,78 @@ const Analyze: React.FC<AnalyzeProps> = ({
             </div>
             <button 
               onClick={() => captureAndAnalyze()}
-              disabled={isAnalyzing}
-              className="absolute bottom-6 left-1/2 -translate-x-1/2 w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-xl active:scale-95 transition-transform border-4 border-slate-200"
+              disabled={isAnalyzing || isAutoScanning}
+              className="absolute bottom-6 left-1/2 -translate-x-1/2 w-16 h-16 bg-white rounded-full flex items-center justify-center shadow-xl active:scale-95 transition-transform border-4 border-slate-200 disabled:opacity-50"
             >
               <div className="w-10 h-10 bg-emerald-500 rounded-full"></div>
             </button>
+
+            <div className="absolute top-4 left-4 bg-black/60 backdrop-blur text-white rounded-xl p-3 space-y-2 text-xs w-56">
+              <button
+                onClick={() => isAutoScanning ? stopAutoScan() : startAutoScan()}
+                disabled={isAnalyzing}
+                className={`w-full py-2 rounded-lg font-bold flex items-center justify-center gap-2 transition-colors ${isAutoScanning ? 'bg-red-500 hover:bg-red-600' : 'bg-emerald-600 hover:bg-emerald-700'}`}
+              >
+                <i className={`fas ${isAutoScanning ? 'fa-stop' : 'fa-person-walking'}`}></i>
+                {isAutoScanning ? 'Stop Auto-Scan' : 'Start Auto-Scan'}
+              </button>
+              {!isAutoScanning ? (
+                <div className="space-y-2">
+                  <label className="flex items-center justify-between gap-2">
+                    <span className="text-white/70">Sample every</span>
+                    <select
+                      value={autoScanSettings.intervalMs}
+                      onChange={(e) => setAutoScanSettings({ ...autoScanSettings, intervalMs: Number(e.target.value) })}
+                      className="bg-white/10 rounded px-1 py-0.5 outline-none"
+                    >
+                      {[1000, 2000, 3000, 5000, 10000].map(ms => (
+                        <option key={ms} value={ms} className="text-slate-800">{ms / 1000}s</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center justify-between gap-2">
+                    <span className="text-white/70">Record at</span>
+                    <span className="flex items-center gap-1">
+                      <input
+                        type="range"
+                        min={50}
+                        max={99}
+                        value={Math.round(autoScanSettings.confidenceThreshold * 100)}
+                        onChange={(e) => setAutoScanSettings({ ...autoScanSettings, confidenceThreshold: Number(e.target.value) / 100 })}
+                        className="w-16 accent-emerald-400"
+                      />
+                      <span className="font-mono">{Math.round(autoScanSettings.confidenceThreshold * 100)}%</span>
+                    </span>
+                  </label>
+                </div>
+              ) : (
+                <div className="font-mono text-white/70 flex justify-between">
+                  <span>{autoScanStats.sampled} sampled</span>
+                  <span>{autoScanStats.skipped} dup</span>
+                  <span className="text-emerald-300">{autoScanStats.recorded} saved</span>
+                </div>
+              )}
+            </div>
+
+            {(isAutoScanning || Object.keys(autoScanTally).length > 0) && (
+              <div className="absolute top-4 right-4 bg-black/60 backdrop-blur text-white rounded-xl p-3 text-xs w-56 max-h-[60%] overflow-y-auto">
+                <p className="font-bold uppercase tracking-widest text-[10px] text-emerald-300 mb-2 flex items-center gap-2">
+                  {autoScanBusy && <i className="fas fa-circle-notch animate-spin"></i>}
+                  Session Tally
+                </p>
+                {(Object.entries(autoScanTally) as [string, SessionTallyEntry][])
+                  .sort(([, a], [, b]) => b.count - a.count)
+                  .map(([key, item]) => (
+                    <div key={key} className="flex justify-between items-center py-1 border-b border-white/10 last:border-0">
+                      <span className={`truncate ${item.isInvasive ? 'text-red-300 font-bold' : ''}`}>{item.name}</span>
+                      <span className="font-mono">{item.count}</span>
+                    </div>
+                  ))}
+                {Object.keys(autoScanTally).length === 0 && (
+                  <p className="text-white/50">Waiting for first identification...</p>
+                )}
+              </div>
+            )}
           </div>
         ) : source === 'correction' && correctionEntry ? (
           <div className="w-full space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -300,7 +746,13 @@ const Analyze: React.FC<AnalyzeProps> = ({
                 <div className="sticky top-4">
                   <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Original Observation</p>
                   <div className="relative rounded-2xl overflow-hidden border-4 border-white shadow-xl ring-1 ring-slate-200">
-                    <img src={correctionEntry.imageUrl} className="w-full aspect-square object-cover" alt="Original" />
+                    {correctionImageUrl || correctionEntry.thumbnailUrl ? (
+                      <img src={correctionImageUrl || correctionEntry.thumbnailUrl} className="w-full aspect-square object-cover" alt="Original" />
+                    ) : (
+                      <div className="w-full aspect-square bg-slate-100 flex items-center justify-center text-slate-300 text-4xl">
+                        <i className="fas fa-image"></i>
+                      </div>
+                    )}
                     <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent flex items-end p-4">
                       <div>
                         <p className="text-white font-bold">{correctionEntry.name}</p>
@@ -323,16 +775,71 @@ const Analyze: React.FC<AnalyzeProps> = ({
                   <p className="text-slate-500">Provide the correct taxonomic data to improve model accuracy.</p>
                 </div>
 
-                <div className="grid gap-6">
+                {correctionAlternates.length > 0 && (
                   <div className="space-y-2">
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Pick an Alternate Candidate</p>
+                    <div className="grid gap-2">
+                      {correctionAlternates.map(candidate => (
+                        <button
+                          key={candidate.profileId}
+                          onClick={() => pickCandidate(candidate)}
+                          disabled={isWaitingForCorrectionImage}
+                          className="w-full p-3 text-left rounded-xl border border-slate-200 hover:border-emerald-500 hover:bg-emerald-50 transition-colors flex items-center gap-3 disabled:opacity-50"
+                        >
+                          <span className="font-mono text-xs font-bold text-emerald-700 w-10">{(candidate.confidence * 100).toFixed(0)}%</span>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-bold text-slate-800 truncate">
+                              {candidate.name}
+                              {candidate.isInvasive && <span className="ml-2 text-[10px] text-red-600 uppercase">Invasive</span>}
+                            </p>
+                            <p className="text-xs text-slate-500 italic truncate">{candidate.scientificName}</p>
+                            {candidate.rationale && <p className="text-xs text-slate-400 truncate">{candidate.rationale}</p>}
+                          </div>
+                          <i className="fas fa-check text-slate-300"></i>
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-400">Or enter the correct species manually below.</p>
+                  </div>
+                )}
+
+                <div className="grid gap-6">
+                  <div className="space-y-2 relative">
                     <label className="text-sm font-bold text-slate-700">Correct Common Name</label>
                     <input 
                       type="text" 
                       value={correctedName}
-                      onChange={(e) => setCorrectedName(e.target.value)}
+                      onChange={(e) => {
+                        setCorrectedName(e.target.value);
+                        setShowProfileSuggestions(true);
+                      }}
+                      onFocus={() => setShowProfileSuggestions(true)}
+                      onBlur={() => setShowProfileSuggestions(false)}
                       placeholder="e.g. Japanese Knotweed"
                       className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none transition-all"
                     />
+                    {showProfileSuggestions && profileSuggestions.length > 0 && (
+                      <div className="absolute z-10 left-0 right-0 mt-1 bg-white rounded-xl border border-slate-200 shadow-lg overflow-hidden">
+                        {profileSuggestions.map(profile => (
+                          <button
+                            key={profile.id}
+                            // mousedown fires before the input's blur hides the list
+                            onMouseDown={(e) => {
+                              e.preventDefault();
+                              selectCorrectionProfile(profile);
+                            }}
+                            className="w-full px-4 py-2 text-left hover:bg-emerald-50 flex items-center gap-3"
+                          >
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-slate-800 truncate">{profile.name}</p>
+                              <p className="text-xs text-slate-500 italic truncate">{profile.scientificName}</p>
+                            </div>
+                            {profile.isInvasive && <span className="text-[10px] font-bold text-red-600 uppercase">Invasive</span>}
+                            <span className="text-xs text-slate-400">{profile.images.length} img</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -360,13 +867,42 @@ const Analyze: React.FC<AnalyzeProps> = ({
                   </div>
                 </div>
 
+                <div className={`p-4 rounded-xl border text-sm ${correctionProfile ? 'bg-emerald-50 border-emerald-100 text-emerald-800' : 'bg-blue-50 border-blue-100 text-blue-800'}`}>
+                  {correctionProfile ? (
+                    <p>
+                      <i className="fas fa-link mr-2"></i>
+                      Matches the existing profile <span className="font-bold">{correctionProfile.name}</span> ({correctionProfile.images.length} training images).
+                    </p>
+                  ) : (
+                    <p>
+                      <i className="fas fa-seedling mr-2"></i>
+                      No profile for this species yet.
+                    </p>
+                  )}
+                  <label className="mt-3 flex items-center gap-2 cursor-pointer text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={addToTraining}
+                      onChange={(e) => setAddToTraining(e.target.checked)}
+                      className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                    />
+                    {correctionProfile
+                      ? (correctionProfile.images.includes(correctionImageUrl) ? 'Photo is already in this profile' : 'Add this photo to the profile\'s training images')
+                      : 'Create a new training profile from this photo'}
+                  </label>
+                  {correctionAlternates.length > 0 && (
+                    <p className="mt-1 text-xs text-slate-500">Also applies when picking an alternate candidate above.</p>
+                  )}
+                </div>
+
                 <div className="flex gap-4 pt-4">
                   <button 
                     onClick={submitCorrection}
-                    className="flex-1 py-4 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2"
+                    disabled={!correctedName.trim() || isWaitingForCorrectionImage}
+                    className="flex-1 py-4 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
                   >
                     <i className="fas fa-save"></i>
-                    Update Record & Refine Model
+                    {addToTraining ? 'Update Record & Refine Model' : 'Update Record Only'}
                   </button>
                   <button 
                     onClick={onCancelCorrection}
@@ -394,12 +930,94 @@ const Analyze: React.FC<AnalyzeProps> = ({
               webkitdirectory="" 
               className="hidden" 
               id="analyze-folder" 
-              onChange={handleFileUpload} 
+              onChange={handleFolderUpload} 
             />
-            <label htmlFor="analyze-folder" className="inline-block px-8 py-3 bg-emerald-600 text-white rounded-xl font-semibold hover:bg-emerald-700 cursor-pointer shadow-lg shadow-emerald-200 transition-colors">
-              Process Folder
-            </label>
+            <div className="flex items-center justify-center gap-4">
+              <label className="flex items-center gap-2 text-sm text-slate-500">
+                Parallel requests
+                <select
+                  value={batchConcurrency}
+                  onChange={(e) => setBatchConcurrency(Number(e.target.value))}
+                  disabled={!!batch && !batch.isFinished}
+                  className="px-2 py-1 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                >
+                  {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <label 
+                htmlFor="analyze-folder" 
+                className={`inline-block px-8 py-3 bg-emerald-600 text-white rounded-xl font-semibold hover:bg-emerald-700 cursor-pointer shadow-lg shadow-emerald-200 transition-colors ${batch && !batch.isFinished ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                Process Folder
+              </label>
+            </div>
             <p className="text-xs text-slate-400">The system will analyze each image individually.</p>
+
+            {batch && batchCounts && (
+              <div className="text-left border border-slate-200 rounded-xl overflow-hidden">
+                <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex flex-wrap justify-between items-center gap-3">
+                  <div>
+                    <p className="text-sm font-bold text-slate-800">
+                      {batch.isFinished ? 'Batch Complete' : batch.isPaused ? 'Batch Paused' : 'Batch Running'}: {batchCounts.done} / {batch.items.length}
+                    </p>
+                    <p className="text-xs text-slate-500 font-mono">
+                      {batchCounts.running} running · {batchCounts.pending} pending · {batchCounts.failed} failed · {batchCounts.cancelled} cancelled
+                    </p>
+                    {batch.cooldownUntil && (
+                      <p className="text-xs text-amber-600 font-medium mt-1">
+                        <i className="fas fa-hourglass-half mr-1"></i>
+                        Rate limited. Backing off until {new Date(batch.cooldownUntil).toLocaleTimeString()}.
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {!batch.isFinished && (
+                      <button
+                        onClick={() => batch.isPaused ? batchQueueRef.current?.resume() : batchQueueRef.current?.pause()}
+                        className="px-3 py-1.5 bg-slate-200 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-300 transition-colors flex items-center gap-1.5"
+                      >
+                        <i className={`fas ${batch.isPaused ? 'fa-play' : 'fa-pause'}`}></i>
+                        {batch.isPaused ? 'Resume' : 'Pause'}
+                      </button>
+                    )}
+                    {!batch.isFinished && (
+                      <button
+                        onClick={() => batchQueueRef.current?.cancel()}
+                        className="px-3 py-1.5 bg-red-100 text-red-700 rounded-lg text-xs font-bold hover:bg-red-200 transition-colors flex items-center gap-1.5"
+                      >
+                        <i className="fas fa-ban"></i>
+                        Cancel
+                      </button>
+                    )}
+                    {batch.isFinished && batchCounts.failed + batchCounts.cancelled > 0 && (
+                      <button
+                        onClick={() => batchQueueRef.current?.retryFailed()}
+                        className="px-3 py-1.5 bg-amber-100 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-200 transition-colors flex items-center gap-1.5"
+                      >
+                        <i className="fas fa-redo"></i>
+                        Retry {batchCounts.failed + batchCounts.cancelled} Files
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="h-1.5 bg-slate-100">
+                  <div
+                    className="bg-emerald-500 h-full transition-all duration-300 ease-out"
+                    style={{ width: `${(batchCounts.done / batch.items.length) * 100}%` }}
+                  ></div>
+                </div>
+                {batchCounts.failed > 0 && (
+                  <div className="max-h-48 overflow-y-auto divide-y divide-slate-100">
+                    {batch.items.filter(item => item.status === 'failed').map(item => (
+                      <div key={item.id} className="px-4 py-2 flex justify-between gap-4 text-xs">
+                        <span className="font-medium text-slate-700 truncate">{item.label}</span>
+                        <span className="text-red-600 truncate max-w-[50%]" title={item.error}>{item.error}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         ) : source === 'video' ? (
            <div className="w-full text-center space-y-6">
@@ -410,16 +1028,83 @@ const Analyze: React.FC<AnalyzeProps> = ({
                <h3 className="text-xl font-bold text-slate-800">Video Analysis</h3>
                <p className="text-slate-500 mt-2">Select a video to sample and analyze frames against your database.</p>
              </div>
+             <div className="flex flex-wrap items-end justify-center gap-4 text-left">
+               <div className="space-y-1">
+                 <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Sampling</label>
+                 <select
+                   value={videoOptions.mode}
+                   onChange={(e) => setVideoOptions({ ...videoOptions, mode: e.target.value as FrameSamplingMode })}
+                   className="block px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                 >
+                   <option value="interval">Fixed Interval</option>
+                   <option value="scene">Scene Change</option>
+                 </select>
+               </div>
+               {videoOptions.mode === 'interval' ? (
+                 <div className="space-y-1">
+                   <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Every (s)</label>
+                   <input
+                     type="number"
+                     min={0.5}
+                     step={0.5}
+                     value={videoOptions.intervalSeconds}
+                     onChange={(e) => setVideoOptions({ ...videoOptions, intervalSeconds: Math.max(0.5, Number(e.target.value) || 0.5) })}
+                     className="block w-24 px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                   />
+                 </div>
+               ) : (
+                 <div className="space-y-1">
+                   <label className="text-xs font-bold text-slate-500 uppercase tracking-widest">Sensitivity</label>
+                   <input
+                     type="range"
+                     min={5}
+                     max={60}
+                     value={65 - videoOptions.sceneThreshold}
+                     onChange={(e) => setVideoOptions({ ...videoOptions, sceneThreshold: 65 - Number(e.target.value) })}
+                     className="block w-32 accent-blue-600"
+                   />
+                 </div>
+               )}
+             </div>
              <input 
               type="file" 
               accept="video/*" 
               className="hidden" 
               id="analyze-video" 
-              onChange={(e) => alert('Sequential frame analysis logic would start here...')} 
+              onChange={handleVideoUpload} 
             />
              <label htmlFor="analyze-video" className="inline-block px-8 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 cursor-pointer shadow-lg shadow-blue-200">
                Select Video
              </label>
+
+             {videoDetections && (
+               <div className="text-left border border-slate-200 rounded-xl overflow-hidden">
+                 <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex justify-between items-center">
+                   <p className="text-sm font-bold text-slate-800">Species Detected in Video</p>
+                   <span className="text-xs text-slate-500">{videoDetections.reduce((sum, d) => sum + d.frameTimes.length, 0)} frames analyzed</span>
+                 </div>
+                 <div className="divide-y divide-slate-100">
+                   {videoDetections.map((d) => (
+                     <div key={d.matchedProfileId || d.name} className="px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                       <div>
+                         <p className="font-bold text-slate-800 flex items-center gap-2">
+                           {d.name}
+                           {d.isInvasive && <span className="text-[10px] px-2 py-0.5 rounded bg-red-100 text-red-600 font-bold uppercase">Invasive</span>}
+                         </p>
+                         <p className="text-xs text-slate-400 italic">{d.scientificName}</p>
+                       </div>
+                       <div className="text-right">
+                         <p className="text-xs font-mono text-slate-600">{d.frameTimes.length} frames · max {(d.maxConfidence * 100).toFixed(0)}%</p>
+                         <p className="text-[10px] font-mono text-slate-400">{d.frameTimes.map(formatFrameTime).join(', ')}</p>
+                       </div>
+                     </div>
+                   ))}
+                   {videoDetections.length === 0 && (
+                     <p className="px-4 py-6 text-center text-sm text-slate-400">No frames could be identified.</p>
+                   )}
+                 </div>
+               </div>
+             )}
            </div>
         ) : (
           <div className="w-full text-center space-y-6">
@@ -449,6 +1134,15 @@ const Analyze: React.FC<AnalyzeProps> = ({
             <span className="text-sm font-medium">{error}</span>
           </div>
         )}
+
+        {failure && (
+          <IdentificationErrorBanner
+            error={failure.error}
+            onRetry={failure.retry && (() => { setFailure(null); failure.retry?.(); })}
+            onWorkOffline={activeProvider.requiresNetwork ? () => { handleProviderChange('local'); setFailure(null); } : undefined}
+            onDismiss={() => setFailure(null)}
+          />
+        )}
       </div>
 
       {capturedImage && !isAnalyzing && (
@@ -492,7 +1186,7 @@ const Analyze: React.FC<AnalyzeProps> = ({
             </div>
             <div className="flex-1">
               <div className="flex flex-wrap justify-between items-center gap-2">
-                <span className="text-emerald-300 text-xs font-bold uppercase tracking-widest bg-emerald-800/50 px-2 py-0.5 rounded">Local Search Manifest: Active</span>
+                <span className="text-emerald-300 text-xs font-bold uppercase tracking-widest bg-emerald-800/50 px-2 py-0.5 rounded">{activeProvider.label}: Active</span>
                 <span className="bg-emerald-800 px-3 py-1 rounded-full text-xs font-mono border border-emerald-700">TS: {new Date().toLocaleTimeString()}</span>
               </div>
               <h4 className="text-2xl font-bold mt-2">Identification Run Complete</h4>
@@ -511,6 +1205,29 @@ const Analyze: React.FC<AnalyzeProps> = ({
                 </div>
               </div>
 
+              {lastResult?.candidates && lastResult.candidates.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-white/10">
+                  <p className="text-[10px] font-bold text-emerald-300 uppercase tracking-widest mb-2">Ranked Candidates</p>
+                  <ol className="space-y-2">
+                    {lastResult.candidates.map((candidate, idx) => (
+                      <li key={candidate.profileId} className="flex items-start gap-3 text-xs">
+                        <span className="font-mono text-emerald-400 w-4">{idx + 1}.</span>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex justify-between gap-2">
+                            <span className={`font-bold truncate ${candidate.isInvasive ? 'text-red-300' : ''}`}>{candidate.name}</span>
+                            <span className="font-mono">{(candidate.confidence * 100).toFixed(0)}%</span>
+                          </div>
+                          <div className="h-1 bg-emerald-800 rounded-full mt-1 overflow-hidden">
+                            <div className="h-full bg-emerald-400" style={{ width: `${candidate.confidence * 100}%` }}></div>
+                          </div>
+                          {candidate.rationale && <p className="text-emerald-200/70 mt-1">{candidate.rationale}</p>}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
               {lastResult?.detectedObjects && lastResult.detectedObjects.length > 0 && (
                 <div className="mt-4 pt-4 border-t border-white/10">
                   <p className="text-[10px] font-bold text-emerald-300 uppercase tracking-widest mb-2">Detected Objects</p>
@@ -0,0 +1,156 @@
+
+import React, { useState } from 'react';
+import { PlantAnalysis, PlantProfile, Survey } from '../types';
+import { BackupData, RestoreMode, RestoreReport, createBackup, readBackup } from '../services/backupService';
+import { downloadFile } from '../services/exportService';
+import { withObservationImages } from '../services/storageService';
+
+interface BackupDialogProps {
+  profiles: PlantProfile[];
+  history: PlantAnalysis[];
+  surveys: Survey[];
+  onRestore: (backup: BackupData, mode: RestoreMode) => RestoreReport;
+  onClose: () => void;
+}
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ profiles, history, surveys, onRestore, onClose }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleBackup = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const blob = createBackup({ profiles, history: await withObservationImages(history), surveys });
+      downloadFile(blob, 'application/zip', `floraid_backup_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err: any) {
+      console.error("Backup Error:", err);
+      setError(err.message || "Failed to create backup");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (mode === 'replace' && !window.confirm("Replace mode discards all current profiles, observations and surveys. Continue?")) return;
+
+    setIsWorking(true);
+    setError(null);
+    setReport(null);
+    try {
+      const backup = await readBackup(file);
+      setReport(onRestore(backup, mode));
+    } catch (err: any) {
+      console.error("Restore Error:", err);
+      setError(err.message || "Failed to restore backup");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const exportReport = () => {
+    if (!report) return;
+    downloadFile(JSON.stringify(report, null, 2), 'application/json', `floraid_restore_report_${Date.now()}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Backup & Restore</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-2">
+            <p className="font-bold text-slate-800">Create Backup</p>
+            <p className="text-sm text-slate-500">
+              Single .zip with {profiles.length} profiles, {history.length} observations, {surveys.length} surveys, images and settings.
+            </p>
+            <button
+              onClick={handleBackup}
+              disabled={isWorking}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              <i className="fas fa-file-archive"></i>
+              Download Backup
+            </button>
+          </div>
+
+          <div className="space-y-3 pt-6 border-t border-slate-100">
+            <p className="font-bold text-slate-800">Restore</p>
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {([
+                { id: 'merge', label: 'Merge' },
+                { id: 'replace', label: 'Replace' }
+              ] as { id: RestoreMode; label: string }[]).map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setMode(option.id)}
+                  className={`flex-1 py-2 rounded-md text-sm font-bold transition-colors ${mode === option.id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              {mode === 'merge'
+                ? 'Records missing here are added. Matching ids are kept as they are, and differences are reported as conflicts.'
+                : 'All current data is replaced by the backup, including settings.'}
+            </p>
+            <input type="file" accept=".zip,application/zip" className="hidden" id="restore-backup" onChange={handleRestore} />
+            <label
+              htmlFor="restore-backup"
+              className={`inline-flex px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-900 cursor-pointer items-center gap-2 ${isWorking ? 'opacity-50 pointer-events-none' : ''}`}
+            >
+              <i className="fas fa-upload"></i>
+              Choose Backup File
+            </label>
+          </div>
+
+          {isWorking && (
+            <div className="flex items-center gap-3 text-emerald-700 text-sm font-medium">
+              <div className="w-4 h-4 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+              Working...
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm border border-red-100 flex items-center gap-2">
+              <i className="fas fa-circle-exclamation"></i>
+              {error}
+            </div>
+          )}
+
+          {report && (
+            <div className="p-4 bg-emerald-50 border border-emerald-100 rounded-lg text-sm text-emerald-900 space-y-2">
+              <p className="font-bold">
+                Restored {report.added.profiles} profiles, {report.added.history} observations, {report.added.surveys} surveys.
+              </p>
+              {report.unchanged > 0 && <p className="text-xs">{report.unchanged} identical records were already present.</p>}
+              {report.conflicts.length > 0 && (
+                <div className="text-amber-800">
+                  <p className="text-xs font-bold">{report.conflicts.length} conflicts kept the local version:</p>
+                  <ul className="mt-1 text-xs list-disc list-inside max-h-32 overflow-y-auto">
+                    {report.conflicts.map(c => <li key={`${c.kind}-${c.id}`}>{c.kind}: {c.label} <span className="font-mono opacity-60">{c.id}</span></li>)}
+                  </ul>
+                  <button onClick={exportReport} className="mt-2 text-xs font-bold underline">Download report</button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
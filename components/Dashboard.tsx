@@ -1,13 +1,20 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { PlantAnalysis } from '../types';
+import { PlantAnalysis, Survey } from '../types';
+import { filterBySurvey } from '../services/surveyService';
+import { buildReviewQueue, getReviewSettings, isVerified } from '../services/reviewService';
+import SurveyFilter from './SurveyFilter';
 
 interface DashboardProps {
   history: PlantAnalysis[];
+  surveys: Survey[];
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ history }) => {
+const Dashboard: React.FC<DashboardProps> = ({ history: allHistory, surveys }) => {
+  const [surveyFilter, setSurveyFilter] = useState<string | null>(null);
+  const history = filterBySurvey(allHistory, surveyFilter);
+
   const totalAnalyzed = history.length;
   const invasiveCount = history.filter(p => p.isInvasive).length;
   // avgConfidence is in decimal (0-1), multiplied by 100 for percentage
@@ -15,6 +22,11 @@ const Dashboard: React.FC<DashboardProps> = ({ history }) => {
   // avgTime is already stored in seconds in PlantAnalysis
   const avgTime = history.length ? history.reduce((sum, p) => sum + p.analysisTime, 0) / history.length : 0;
 
+  const verifiedCount = history.filter(isVerified).length;
+  const rejectedCount = history.filter(p => p.review?.decision === 'rejected').length;
+  const awaitingReview = buildReviewQueue(history, getReviewSettings()).length;
+  const verifiedPercent = totalAnalyzed ? verifiedCount / totalAnalyzed * 100 : 0;
+
   const plantCounts = history.reduce((acc, curr) => {
     acc[curr.name] = (acc[curr.name] || 0) + 1;
     return acc;
@@ -25,8 +37,27 @@ const Dashboard: React.FC<DashboardProps> = ({ history }) => {
     .sort((a, b) => b.count - a.count)
     .slice(0, 5);
 
+  // Per-survey summary so repeated surveys at the same site can be compared side by side.
+  const surveyComparison = surveys
+    .map(survey => {
+      const observations = allHistory.filter(p => p.surveyId === survey.id);
+      return {
+        survey,
+        total: observations.length,
+        invasive: observations.filter(p => p.isInvasive).length,
+        verified: observations.filter(isVerified).length,
+        species: new Set(observations.map(p => p.name)).size,
+        avgConfidence: observations.length ? observations.reduce((sum, p) => sum + p.confidence, 0) / observations.length * 100 : 0
+      };
+    })
+    .sort((a, b) => a.survey.site.localeCompare(b.survey.site) || b.survey.startTime - a.survey.startTime);
+
   return (
     <div className="space-y-8">
+      <div className="flex justify-end">
+        <SurveyFilter surveys={surveys} value={surveyFilter} onChange={setSurveyFilter} />
+      </div>
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {[
@@ -49,6 +80,23 @@ const Dashboard: React.FC<DashboardProps> = ({ history }) => {
         ))}
       </div>
 
+      {/* Verification */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-3">
+          <h2 className="text-lg font-bold text-slate-800">Verification</h2>
+          <div className="flex gap-6 text-sm">
+            <span className="text-emerald-700"><i className="fas fa-user-check mr-1.5"></i>{verifiedCount - rejectedCount} verified</span>
+            <span className="text-red-600"><i className="fas fa-user-times mr-1.5"></i>{rejectedCount} rejected</span>
+            <span className="text-slate-500"><i className="fas fa-hourglass-half mr-1.5"></i>{totalAnalyzed - verifiedCount} unverified</span>
+            <span className="text-amber-600"><i className="fas fa-clipboard-list mr-1.5"></i>{awaitingReview} in review queue</span>
+          </div>
+        </div>
+        <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden">
+          <div className="h-full bg-emerald-500" style={{ width: `${verifiedPercent}%` }}></div>
+        </div>
+        <p className="mt-2 text-xs text-slate-500">{verifiedPercent.toFixed(1)}% of observations have been checked by a reviewer.</p>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Frequency Chart */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
@@ -109,6 +157,50 @@ const Dashboard: React.FC<DashboardProps> = ({ history }) => {
           </p>
         </div>
       </div>
+
+      {surveyComparison.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 pb-4">
+            <h2 className="text-lg font-bold text-slate-800">Survey Comparison</h2>
+            <p className="text-xs text-slate-500">Surveys grouped by site. Select a row to scope the dashboard to that survey.</p>
+          </div>
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-y border-slate-200">
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Site</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Survey</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Observations</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Species</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Invasive</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Verified</th>
+                <th className="px-6 py-3 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Avg Confidence</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {surveyComparison.map(({ survey, total, invasive, verified, species, avgConfidence }) => (
+                <tr
+                  key={survey.id}
+                  onClick={() => setSurveyFilter(survey.id)}
+                  className={`cursor-pointer hover:bg-slate-50 transition-colors ${surveyFilter === survey.id ? 'bg-emerald-50/50' : ''} ${survey.status === 'archived' ? 'text-slate-400' : 'text-slate-700'}`}
+                >
+                  <td className="px-6 py-3 text-sm font-medium">{survey.site || '—'}</td>
+                  <td className="px-6 py-3 text-sm">
+                    {survey.name}
+                    {survey.status === 'active' && <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700 font-bold uppercase">Active</span>}
+                  </td>
+                  <td className="px-6 py-3 text-xs">{new Date(survey.startTime).toLocaleDateString()}</td>
+                  <td className="px-6 py-3 text-sm font-mono text-right">{total}</td>
+                  <td className="px-6 py-3 text-sm font-mono text-right">{species}</td>
+                  <td className="px-6 py-3 text-sm font-mono text-right text-red-600">{invasive}</td>
+                  <td className="px-6 py-3 text-sm font-mono text-right">{verified} / {total}</td>
+                  <td className="px-6 py-3 text-sm font-mono text-right">{avgConfidence.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+
+import React, { useEffect, useState } from 'react';
+import { PlantAnalysis, PlantProfile } from '../types';
+import { DuplicateProfilePair, DuplicateReason, findDuplicateProfiles } from '../services/profileService';
+
+interface DuplicateProfilesDialogProps {
+  profiles: PlantProfile[];
+  history: PlantAnalysis[];
+  onMerge: (targetId: string, sourceIds: string[]) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  'scientific-name': 'Same scientific name',
+  'common-name': 'Same common name',
+  images: 'Similar images'
+};
+
+const DuplicateProfilesDialog: React.FC<DuplicateProfilesDialogProps> = ({ profiles, history, onMerge, onClose }) => {
+  const [pairs, setPairs] = useState<DuplicateProfilePair[] | null>(null);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  // Re-runs after every merge, since merging changes which pairs remain.
+  useEffect(() => {
+    let cancelled = false;
+    setPairs(null);
+    findDuplicateProfiles(profiles).then(found => {
+      if (!cancelled) setPairs(found);
+    });
+    return () => { cancelled = true; };
+  }, [profiles]);
+
+  const pairKey = (pair: DuplicateProfilePair) => `${pair.a.id}:${pair.b.id}`;
+  const visiblePairs = (pairs || []).filter(pair => !dismissed.has(pairKey(pair)));
+
+  const countReferences = (profileId: string) => history.filter(item =>
+    item.matchedProfileId === profileId || item.correctedData?.matchedProfileId === profileId
+  ).length;
+
+  const merge = (target: PlantProfile, source: PlantProfile) => {
+    const references = countReferences(source.id);
+    const message = `Merge "${source.name}" into "${target.name}"? Its ${source.images.length} images move to "${target.name}"`
+      + (references > 0 ? ` and ${references} observations are re-pointed to it.` : '.');
+    if (window.confirm(message)) onMerge(target.id, [source.id]);
+  };
+
+  const renderProfile = (profile: PlantProfile, other: PlantProfile) => (
+    <div className="flex-1 min-w-0 flex gap-3">
+      <div className="w-16 h-16 rounded-lg overflow-hidden bg-slate-100 flex-shrink-0">
+        {profile.images[0] && <img src={profile.images[0]} className="w-full h-full object-cover" alt="" />}
+      </div>
+      <div className="min-w-0">
+        <p className="font-bold text-slate-800 truncate">{profile.name}</p>
+        <p className="text-xs text-slate-400 italic truncate">{profile.scientificName}</p>
+        <p className="text-[10px] text-slate-500">{profile.images.length} images · {countReferences(profile.id)} observations</p>
+        <button
+          onClick={() => merge(profile, other)}
+          className="mt-1 text-xs font-bold text-emerald-600 hover:text-emerald-700"
+        >
+          <i className="fas fa-compress-alt mr-1"></i> Keep this one
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Duplicate Profiles</h3>
+            <p className="text-xs text-slate-400">Merging combines the images and re-points observations at the profile you keep.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {pairs === null && (
+            <div className="py-16 flex flex-col items-center text-slate-400">
+              <div className="w-8 h-8 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin mb-3"></div>
+              <p>Comparing profiles...</p>
+            </div>
+          )}
+          {visiblePairs.map(pair => (
+            <div key={pairKey(pair)} className="px-6 py-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                {pair.reasons.map(reason => (
+                  <span key={reason} className="px-2 py-0.5 rounded bg-violet-100 text-violet-700 text-[10px] font-bold uppercase">
+                    {REASON_LABELS[reason]}
+                  </span>
+                ))}
+                {pair.similarity !== null && (
+                  <span className="text-xs text-slate-500 font-mono">{(pair.similarity * 100).toFixed(0)}% image similarity</span>
+                )}
+                <button
+                  onClick={() => setDismissed(prev => new Set(prev).add(pairKey(pair)))}
+                  className="ml-auto text-xs text-slate-400 hover:text-slate-600"
+                >
+                  Not a duplicate
+                </button>
+              </div>
+              <div className="flex items-center gap-4">
+                {renderProfile(pair.a, pair.b)}
+                <i className="fas fa-arrows-alt-h text-slate-300"></i>
+                {renderProfile(pair.b, pair.a)}
+              </div>
+            </div>
+          ))}
+          {pairs !== null && visiblePairs.length === 0 && (
+            <div className="py-16 text-center text-slate-400">
+              <i className="fas fa-check-circle text-3xl mb-3 text-emerald-400"></i>
+              <p>No likely duplicates found.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateProfilesDialog;
@@ -0,0 +1,370 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { EvaluationRun, EvaluationSample, PlantProfile, UNKNOWN_CLASS } from '../types';
+import { analyzePlantWithContext, getActiveProvider } from '../services/identificationService';
+import { BatchQueue, BatchQueueSnapshot, createBatchQueue } from '../services/batchQueue';
+import { isTransientIdentificationError } from '../services/identificationErrors';
+import { deleteEvaluationRun, loadEvaluationRuns, saveEvaluationRun } from '../services/storageService';
+import {
+  LabeledFile,
+  computeEvaluationMetrics,
+  formatRate,
+  getTrainingImageDigests,
+  labelFilesByFolder,
+  resolveLabel
+} from '../services/evaluationService';
+import { downloadFile } from '../services/exportService';
+import { preprocessImage } from '../services/imagePreprocessing';
+import EvaluationReport from './EvaluationReport';
+
+interface EvaluationProps {
+  profiles: PlantProfile[];
+}
+
+const EVALUATION_CONCURRENCY = 2;
+
+const Evaluation: React.FC<EvaluationProps> = ({ profiles }) => {
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [testSet, setTestSet] = useState<LabeledFile[] | null>(null);
+  const [runName, setRunName] = useState('');
+  const [activeRun, setActiveRun] = useState<EvaluationRun | null>(null);
+  const [batch, setBatch] = useState<BatchQueueSnapshot<number> | null>(null);
+  const [viewRunId, setViewRunId] = useState<string | null>(null);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  // The queue of the run in progress, cleared once the run is saved.
+  const queueRef = useRef<BatchQueue | null>(null);
+  const activeRunRef = useRef<EvaluationRun | null>(null);
+
+  const isRunning = !!batch && batch.items.some(item => item.status === 'pending' || item.status === 'running');
+  const viewedRun = activeRun && (isRunning || viewRunId === activeRun.id) ? activeRun : runs.find(r => r.id === viewRunId);
+  const baselineRun = runs.find(r => r.id === baselineId && r.id !== viewedRun?.id);
+
+  useEffect(() => {
+    activeRunRef.current = activeRun;
+  }, [activeRun]);
+
+  // Leaving the view stops a run in progress and keeps what it has evaluated so far.
+  useEffect(() => {
+    loadEvaluationRuns().then(setRuns).catch(err => console.error("Failed to load evaluation runs:", err));
+    return () => {
+      if (!queueRef.current || !activeRunRef.current) return;
+      queueRef.current.cancel();
+      saveEvaluationRun({ ...activeRunRef.current, stopped: true })
+        .catch(err => console.error("Failed to save stopped evaluation run:", err));
+    };
+  }, []);
+
+  // Persist the run once every sample has finished (or the run was stopped).
+  useEffect(() => {
+    if (!activeRun || !batch || isRunning) return;
+    const stopped = batch.items.some(item => item.status === 'cancelled');
+    const finished = stopped ? { ...activeRun, stopped } : activeRun;
+    queueRef.current = null;
+    saveEvaluationRun(finished)
+      .then(() => setRuns(prev => [finished, ...prev.filter(r => r.id !== finished.id)]))
+      .catch(err => setError(`Failed to save run: ${err.message}`));
+    setBatch(null);
+    setViewRunId(finished.id);
+  }, [activeRun, batch, isRunning]);
+
+  const labelSummary = testSet
+    ? Array.from(testSet.reduce((acc, item) => acc.set(item.label, (acc.get(item.label) || 0) + 1), new Map<string, number>()))
+      .map(([label, count]) => ({ label, count, classId: resolveLabel(label, profiles) }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+    : [];
+
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    const labeled = labelFilesByFolder(files);
+    setError(labeled.length === 0 ? "No labeled images found. Select a folder containing one subfolder of images per species." : null);
+    setTestSet(labeled.length > 0 ? labeled : null);
+    if (!runName) setRunName(`${getActiveProvider().label} · ${new Date().toLocaleString()}`);
+  };
+
+  const startRun = async () => {
+    if (!testSet || profiles.length === 0) return;
+    setIsPreparing(true);
+    let trainingDigests: Set<string>;
+    try {
+      trainingDigests = await getTrainingImageDigests(profiles);
+    } catch (err: any) {
+      setError(`Could not read the training images: ${err.message}`);
+      return;
+    } finally {
+      setIsPreparing(false);
+    }
+
+    const provider = getActiveProvider();
+    const classNames: Record<string, string> = { [UNKNOWN_CLASS]: 'Unknown (rejected)' };
+    profiles.forEach(p => { classNames[p.id] = p.name; });
+
+    const samples: EvaluationSample[] = testSet.map(({ file, label }) => ({
+      fileName: file.webkitRelativePath || file.name,
+      expectedLabel: label,
+      expectedClass: resolveLabel(label, profiles)
+    }));
+    const run: EvaluationRun = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: runName.trim() || `${provider.label} · ${new Date().toLocaleString()}`,
+      createdAt: Date.now(),
+      providerId: provider.id,
+      providerLabel: provider.label,
+      profileCount: profiles.length,
+      classNames,
+      samples
+    };
+
+    const updateSample = (index: number, update: Partial<EvaluationSample>) => {
+      setActiveRun(prev => prev && {
+        ...prev,
+        samples: prev.samples.map((sample, i) => i === index ? { ...sample, ...update } : sample)
+      });
+    };
+
+    const queue = createBatchQueue<number>(
+      testSet.map((item, index) => ({ label: item.file.name, payload: index })),
+      {
+        concurrency: EVALUATION_CONCURRENCY,
+        maxRetries: 5,
+        baseDelayMs: 2000,
+        maxDelayMs: 60000,
+        isRetryable: isTransientIdentificationError,
+        onChange: snapshot => {
+          setBatch(snapshot);
+          snapshot.items.forEach(item => {
+            if (item.status === 'failed') updateSample(item.payload, { error: item.error || 'Failed' });
+          });
+        },
+        worker: async index => {
+          const { dataUrl: image, hash } = await preprocessImage(testSet[index].file);
+          // A test image the model has seen as a reference would inflate accuracy.
+          if (trainingDigests.has(hash)) {
+            updateSample(index, { inTrainingSet: true, error: undefined });
+            return;
+          }
+          const startTime = performance.now();
+          // Cached answers would hide prompt or model changes and skew latency.
+          const result = await analyzePlantWithContext(image, profiles, { bypassCache: true, imageHash: hash });
+          updateSample(index, {
+            predictedClass: result.matchedProfileId && result.matchedProfileId !== UNKNOWN_CLASS ? result.matchedProfileId : UNKNOWN_CLASS,
+            predictedName: result.name,
+            confidence: result.confidence,
+            latencyMs: performance.now() - startTime,
+            error: undefined
+          });
+        }
+      }
+    );
+
+    setError(null);
+    setActiveRun(run);
+    setViewRunId(run.id);
+    queueRef.current = queue;
+    queue.start();
+  };
+
+  const removeRun = async (id: string) => {
+    if (!window.confirm("Delete this evaluation run?")) return;
+    await deleteEvaluationRun(id);
+    setRuns(prev => prev.filter(r => r.id !== id));
+    if (viewRunId === id) setViewRunId(null);
+    if (baselineId === id) setBaselineId(null);
+  };
+
+  const exportRun = (run: EvaluationRun) => {
+    const report = { ...run, metrics: computeEvaluationMetrics(run) };
+    downloadFile(JSON.stringify(report, null, 2), 'application/json', `floraid_evaluation_${run.id}.json`);
+  };
+
+  const progress = batch ? batch.items.filter(item => item.status === 'done' || item.status === 'failed' || item.status === 'cancelled').length : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Model Evaluation</h2>
+          <p className="text-slate-500 max-w-2xl">
+            Run a held-out, labeled test set through the active backend. Organize images as one subfolder per species;
+            folders that match no profile are expected to come back as unknown.
+          </p>
+        </div>
+        <div>
+          <input
+            type="file"
+            id="evaluation-folder"
+            className="hidden"
+            multiple
+            // @ts-ignore
+            webkitdirectory=""
+            onChange={handleFolderSelect}
+          />
+          <label
+            htmlFor="evaluation-folder"
+            className={`px-6 py-3 bg-emerald-600 text-white rounded-xl font-semibold hover:bg-emerald-700 cursor-pointer shadow-lg shadow-emerald-100 flex items-center gap-2 ${isRunning ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            <i className="fas fa-folder-open"></i>
+            Select Test Set
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-lg flex items-center gap-3 border border-red-100 text-sm font-medium">
+          <i className="fas fa-circle-exclamation"></i>
+          {error}
+        </div>
+      )}
+
+      {profiles.length === 0 && (
+        <div className="p-4 bg-amber-50 text-amber-800 rounded-lg border border-amber-200 text-sm">
+          The training database is empty. Add profiles before evaluating.
+        </div>
+      )}
+
+      {testSet && !isRunning && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            <label className="flex-1 text-sm font-bold text-slate-700 space-y-1">
+              <span>Run Name</span>
+              <input
+                value={runName}
+                onChange={(e) => setRunName(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </label>
+            <button
+              onClick={startRun}
+              disabled={profiles.length === 0 || isPreparing}
+              className="px-6 py-2.5 bg-slate-800 text-white rounded-lg font-bold hover:bg-slate-900 disabled:opacity-50 flex items-center gap-2"
+            >
+              <i className={`fas ${isPreparing ? 'fa-circle-notch fa-spin' : 'fa-play'}`}></i>
+              {isPreparing ? 'Checking against training images...' : `Evaluate ${testSet.length} Images with ${getActiveProvider().label}`}
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 text-sm">
+            {labelSummary.map(item => (
+              <div key={item.label} className="flex justify-between items-center px-3 py-2 bg-slate-50 rounded-lg">
+                <span className="font-medium text-slate-700 truncate">{item.label}</span>
+                <span className={`text-xs ${item.classId === UNKNOWN_CLASS ? 'text-amber-600' : 'text-emerald-700'}`}>
+                  {item.count} · {item.classId === UNKNOWN_CLASS ? 'expects unknown' : 'profile matched'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isRunning && batch && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+          <div className="flex justify-between items-center text-sm">
+            <span className="font-bold text-slate-800">Evaluating {activeRun?.name}</span>
+            <span className="font-mono text-slate-500">{progress} / {batch.items.length}</span>
+          </div>
+          <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress / batch.items.length * 100}%` }}></div>
+          </div>
+          {batch.cooldownUntil && (
+            <p className="text-xs text-amber-600">Backing off after a rate limit or network error...</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => batch.isPaused ? queueRef.current?.resume() : queueRef.current?.pause()}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-200"
+            >
+              <i className={`fas ${batch.isPaused ? 'fa-play' : 'fa-pause'} mr-2`}></i>
+              {batch.isPaused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={() => queueRef.current?.cancel()}
+              className="px-4 py-2 bg-white text-red-600 border border-red-200 rounded-lg text-sm font-bold hover:bg-red-50"
+            >
+              Stop &amp; Save Partial Run
+            </button>
+          </div>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 flex justify-between items-center">
+            <span className="font-bold text-slate-800">Saved Runs</span>
+            <span className="text-xs text-slate-400">Pick a baseline to see deltas against the viewed run.</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">Run</th>
+                  <th className="px-4 py-2 text-left">Backend</th>
+                  <th className="px-4 py-2 text-right">Images</th>
+                  <th className="px-4 py-2 text-right">Accuracy</th>
+                  <th className="px-4 py-2 text-right">Precision</th>
+                  <th className="px-4 py-2 text-right">Recall</th>
+                  <th className="px-4 py-2 text-right">Rejection</th>
+                  <th className="px-4 py-2 text-right">p50</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {runs.map(run => {
+                  const m = computeEvaluationMetrics(run);
+                  return (
+                    <tr key={run.id} className={viewedRun?.id === run.id ? 'bg-emerald-50/50' : ''}>
+                      <td className="px-4 py-2">
+                        <p className="font-medium text-slate-800">{run.name}</p>
+                        <p className="text-xs text-slate-400">
+                          {new Date(run.createdAt).toLocaleString()} · {run.profileCount} profiles
+                          {run.stopped && <span className="ml-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[10px] font-bold uppercase">Stopped</span>}
+                        </p>
+                      </td>
+                      <td className="px-4 py-2 text-slate-600">{run.providerLabel}</td>
+                      <td className="px-4 py-2 text-right font-mono">{m.evaluated}</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatRate(m.accuracy)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatRate(m.macroPrecision)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatRate(m.macroRecall)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{formatRate(m.unknownRejectionRate)}</td>
+                      <td className="px-4 py-2 text-right font-mono">{m.latency ? `${(m.latency.p50 / 1000).toFixed(2)}s` : '—'}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button onClick={() => setViewRunId(run.id)} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700" title="View report">
+                          <i className="fas fa-eye"></i>
+                        </button>
+                        <button
+                          onClick={() => setBaselineId(baselineId === run.id ? null : run.id)}
+                          className={`w-8 h-8 rounded-lg hover:bg-slate-100 ${baselineId === run.id ? 'text-emerald-600' : 'text-slate-400 hover:text-slate-700'}`}
+                          title="Use as baseline"
+                        >
+                          <i className="fas fa-code-compare"></i>
+                        </button>
+                        <button onClick={() => exportRun(run)} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700" title="Export JSON">
+                          <i className="fas fa-download"></i>
+                        </button>
+                        <button onClick={() => removeRun(run.id)} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-red-50 hover:text-red-500" title="Delete run">
+                          <i className="fas fa-trash-alt"></i>
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {viewedRun && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-bold text-slate-800">
+            {viewedRun.name}
+            {baselineRun && <span className="text-sm font-normal text-slate-400"> compared with {baselineRun.name}</span>}
+          </h3>
+          <EvaluationReport run={viewedRun} baseline={baselineRun} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Evaluation;
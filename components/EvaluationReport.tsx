@@ -0,0 +1,170 @@
+
+import React from 'react';
+import { EvaluationRun, UNKNOWN_CLASS } from '../types';
+import { EvaluationMetrics, computeEvaluationMetrics, formatRate } from '../services/evaluationService';
+
+interface EvaluationReportProps {
+  run: EvaluationRun;
+  baseline?: EvaluationRun;
+}
+
+const formatDelta = (value: number | null, baseline: number | null | undefined, invert = false) => {
+  if (value === null || baseline === null || baseline === undefined) return null;
+  const delta = (value - baseline) * 100;
+  if (Math.abs(delta) < 0.05) return <span className="text-slate-400">±0.0</span>;
+  const better = invert ? delta < 0 : delta > 0;
+  return <span className={better ? 'text-emerald-600' : 'text-red-500'}>{delta > 0 ? '+' : ''}{delta.toFixed(1)}</span>;
+};
+
+const EvaluationReport: React.FC<EvaluationReportProps> = ({ run, baseline }) => {
+  const metrics = computeEvaluationMetrics(run);
+  const base: EvaluationMetrics | null = baseline ? computeEvaluationMetrics(baseline) : null;
+  const classIds = metrics.classes.map(c => c.classId);
+  const maxCell = Math.max(1, ...Object.values(metrics.confusion).flatMap(row => Object.values(row)));
+  const maxBucket = Math.max(1, ...(metrics.latency?.histogram.map(b => b.count) || []));
+
+  const cards = [
+    { label: 'Accuracy', value: metrics.accuracy, delta: formatDelta(metrics.accuracy, base?.accuracy) },
+    { label: 'Macro Precision', value: metrics.macroPrecision, delta: formatDelta(metrics.macroPrecision, base?.macroPrecision) },
+    { label: 'Macro Recall', value: metrics.macroRecall, delta: formatDelta(metrics.macroRecall, base?.macroRecall) },
+    { label: 'Unknown Rejection', value: metrics.unknownRejectionRate, delta: formatDelta(metrics.unknownRejectionRate, base?.unknownRejectionRate) },
+    { label: 'False Rejection', value: metrics.falseRejectionRate, delta: formatDelta(metrics.falseRejectionRate, base?.falseRejectionRate, true) }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{card.label}</p>
+            <p className="text-2xl font-bold text-slate-800 mt-1">{formatRate(card.value)}</p>
+            {card.delta && <p className="text-xs font-mono mt-1">{card.delta} pts vs {baseline?.name}</p>}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">
+        {metrics.evaluated} images scored{metrics.failed > 0 && `, ${metrics.failed} failed and excluded`}
+        {metrics.inTrainingSet > 0 && `, ${metrics.inTrainingSet} already in the training profiles and excluded`}.
+        {run.stopped && ' The run was stopped before every image was evaluated.'}
+        Unknown rejection covers images filed under folders with no matching profile; false rejection covers in-database images answered as unknown.
+      </p>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 font-bold text-slate-800">Per-Species Precision / Recall</div>
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left">Class</th>
+                <th className="px-4 py-2 text-right">Support</th>
+                <th className="px-4 py-2 text-right">Precision</th>
+                <th className="px-4 py-2 text-right">Recall</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {metrics.classes.map(c => (
+                <tr key={c.classId} className={c.classId === UNKNOWN_CLASS ? 'text-slate-500 italic' : ''}>
+                  <td className="px-4 py-2 font-medium">{c.name}</td>
+                  <td className="px-4 py-2 text-right font-mono">{c.support}</td>
+                  <td className="px-4 py-2 text-right font-mono">{formatRate(c.precision)}</td>
+                  <td className="px-4 py-2 text-right font-mono">{formatRate(c.recall)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 font-bold text-slate-800">Latency</div>
+          {metrics.latency ? (
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {[
+                  { label: 'p50', value: metrics.latency.p50, base: base?.latency?.p50 },
+                  { label: 'p90', value: metrics.latency.p90, base: base?.latency?.p90 },
+                  { label: 'p99', value: metrics.latency.p99, base: base?.latency?.p99 }
+                ].map(stat => (
+                  <div key={stat.label}>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">{stat.label}</p>
+                    <p className="font-mono font-bold text-slate-800">{(stat.value / 1000).toFixed(2)}s</p>
+                    {stat.base !== undefined && (
+                      <p className={`text-[10px] font-mono ${stat.value <= stat.base ? 'text-emerald-600' : 'text-red-500'}`}>
+                        {stat.value - stat.base >= 0 ? '+' : ''}{((stat.value - stat.base) / 1000).toFixed(2)}s
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1.5">
+                {metrics.latency.histogram.map(bucket => (
+                  <div key={bucket.label} className="flex items-center gap-3 text-xs">
+                    <span className="w-12 text-right font-mono text-slate-500">{bucket.label}</span>
+                    <div className="flex-1 bg-slate-100 h-3 rounded overflow-hidden">
+                      <div className="h-full bg-emerald-500" style={{ width: `${bucket.count / maxBucket * 100}%` }}></div>
+                    </div>
+                    <span className="w-8 font-mono text-slate-600">{bucket.count}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-400 font-mono">
+                mean {(metrics.latency.mean / 1000).toFixed(2)}s · min {(metrics.latency.min / 1000).toFixed(2)}s · max {(metrics.latency.max / 1000).toFixed(2)}s
+              </p>
+            </div>
+          ) : (
+            <p className="p-4 text-sm text-slate-400">No timings recorded.</p>
+          )}
+        </div>
+      </div>
+
+      {classIds.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-slate-100 font-bold text-slate-800">
+            Confusion Matrix <span className="text-xs font-normal text-slate-400">rows: expected · columns: predicted</span>
+          </div>
+          <div className="overflow-x-auto p-4">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th></th>
+                  {classIds.map(id => (
+                    <th key={id} className="px-2 py-1 font-medium text-slate-500 max-w-[6rem] truncate" title={run.classNames[id] || id}>
+                      {run.classNames[id] || id}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {classIds.map(expected => (
+                  <tr key={expected}>
+                    <th className="px-2 py-1 text-right font-medium text-slate-500 whitespace-nowrap">{run.classNames[expected] || expected}</th>
+                    {classIds.map(predicted => {
+                      const count = metrics.confusion[expected]?.[predicted] || 0;
+                      const intensity = count / maxCell;
+                      const isDiagonal = expected === predicted;
+                      return (
+                        <td
+                          key={predicted}
+                          className="w-12 h-10 text-center font-mono border border-white"
+                          style={{
+                            backgroundColor: count === 0 ? '#f8fafc' : isDiagonal
+                              ? `rgba(16, 185, 129, ${0.15 + intensity * 0.85})`
+                              : `rgba(239, 68, 68, ${0.15 + intensity * 0.85})`,
+                            color: intensity > 0.5 ? 'white' : '#334155'
+                          }}
+                        >
+                          {count || ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationReport;
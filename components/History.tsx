@@ -1,26 +1,134 @@
 
-import React, { useState } from 'react';
-import { PlantAnalysis } from '../types';
+import React, { useEffect, useState } from 'react';
+import { PlantAnalysis, PlantProfile, Survey, UNKNOWN_PLANT_NAME } from '../types';
+import { formatFrameTime } from '../services/videoSampler';
+import { filterBySurvey } from '../services/surveyService';
+import { downloadFile, getGeolocated, toGeoJSON, toKML } from '../services/exportService';
+import { CSV_COLUMNS, CsvColumnKey, DEFAULT_CSV_COLUMNS, historyFromCSV, historyToCSV } from '../services/csvService';
+import { DEFAULT_HISTORY_QUERY, HistoryQuery, HistorySortKey, applyHistoryQuery, getDuplicateCounts, getSpeciesOptions } from '../services/historyQuery';
+import SurveyFilter from './SurveyFilter';
+import HistoryFilters from './HistoryFilters';
+import ObservationDetail from './ObservationDetail';
+import TrashBin from './TrashBin';
+import ReidentifyDialog from './ReidentifyDialog';
+import { applyAuditedUpdate } from '../services/auditService';
+import { REVIEW_DECISION_LABELS } from '../services/reviewService';
+import { filterImageFiles, preprocessImage } from '../services/imagePreprocessing';
+import { hasObservationImage, withObservationImages } from '../services/storageService';
+
+const PAGE_SIZES = [25, 50, 100, 250];
 
 interface HistoryProps {
   history: PlantAnalysis[];
-  onClear: () => void;
+  trashed: PlantAnalysis[];
+  profiles: PlantProfile[];
+  surveys: Survey[];
+  undoLabel?: string;
+  redoLabel?: string;
   onUpdateHistory: (history: PlantAnalysis[]) => void;
+  onEditEntries: (label: string, updated: PlantAnalysis[]) => void;
+  onPurge: (ids: string[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onStartCorrection: (entry: PlantAnalysis) => void;
 }
 
-const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, onStartCorrection }) => {
+const History: React.FC<HistoryProps> = ({
+  history: allHistory,
+  trashed,
+  profiles,
+  surveys,
+  undoLabel,
+  redoLabel,
+  onUpdateHistory,
+  onEditEntries,
+  onPurge,
+  onUndo,
+  onRedo,
+  onStartCorrection
+}) => {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [surveyFilter, setSurveyFilter] = useState<string | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showCsvColumns, setShowCsvColumns] = useState(false);
+  const [csvColumns, setCsvColumns] = useState<CsvColumnKey[]>(DEFAULT_CSV_COLUMNS);
+  const [importReport, setImportReport] = useState<{ added: number; skipped: number; duplicates: number; errors: string[] } | null>(null);
+  const [query, setQuery] = useState<HistoryQuery>(DEFAULT_HISTORY_QUERY);
+  const surveyHistory = filterBySurvey(allHistory, surveyFilter);
+  const history = applyHistoryQuery(surveyHistory, query);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1]);
+  const [page, setPage] = useState(0);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [reidentifyTargets, setReidentifyTargets] = useState<PlantAnalysis[] | null>(null);
+  const pageCount = Math.max(1, Math.ceil(history.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pagedHistory = history.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  // Bulk actions only ever touch selected rows that are still visible.
+  const selectedEntries = history.filter(item => selectedIds.has(item.id));
+  const detailEntry = detailId ? allHistory.find(item => item.id === detailId) : undefined;
+  const surveyNames = new Map(surveys.map(s => [s.id, s.name]));
+  const duplicateCounts = getDuplicateCounts(allHistory);
+
+  const toggleSort = (key: HistorySortKey) => {
+    setQuery(prev => ({
+      ...prev,
+      sortKey: key,
+      sortDirection: prev.sortKey === key && prev.sortDirection === 'desc' ? 'asc' : 'desc'
+    }));
+  };
+
+  const renderSortHeader = (key: HistorySortKey, label: string) => (
+    <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1.5 uppercase tracking-wider hover:text-slate-700">
+        {label}
+        <i className={`fas ${query.sortKey !== key ? 'fa-sort text-slate-300' : query.sortDirection === 'asc' ? 'fa-sort-up' : 'fa-sort-down'}`}></i>
+      </button>
+    </th>
+  );
+
+  const handleSurveyFilterChange = (value: string | null) => {
+    setSurveyFilter(value);
+    setSelectedIds(new Set());
+  };
+
+  const handleQueryChange = (next: HistoryQuery) => {
+    setQuery(next);
+    setSelectedIds(new Set());
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), ignored while typing in a field.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && undoLabel) {
+        e.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && e.shiftKey) || key === 'y') && redoLabel) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undoLabel, redoLabel, onUndo, onRedo]);
+
+  const moveToTrash = (entries: PlantAnalysis[], label: string) => {
+    const deletedAt = Date.now();
+    onEditEntries(label, entries.map(item => applyAuditedUpdate(item, { deletedAt }, 'Moved to trash')));
+    setSelectedIds(new Set());
+  };
 
   const handleClear = () => {
-    if (window.confirm("Are you sure you want to clear the entire identification log? This will reset all dashboard statistics and cannot be undone.")) {
-      onClear();
-      setSelectedIds(new Set());
+    if (window.confirm(`Move all ${allHistory.length} observations to the trash? They can be restored from the trash until purged.`)) {
+      moveToTrash(allHistory, `Wiped ${allHistory.length} observations`);
     }
   };
 
   const toggleSelectAll = () => {
-    if (selectedIds.size === history.length) {
+    if (selectedEntries.length === history.length) {
       setSelectedIds(new Set());
     } else {
       setSelectedIds(new Set(history.map(item => item.id)));
@@ -38,90 +146,276 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
   };
 
   const applyBulkAction = (action: 'favorite' | 'incorrect' | 'delete') => {
+    const selected = selectedEntries;
     if (action === 'delete') {
-      if (!window.confirm(`Are you sure you want to delete ${selectedIds.size} selected entries?`)) return;
-      const newHistory = history.filter(item => !selectedIds.has(item.id));
-      onUpdateHistory(newHistory);
-      setSelectedIds(new Set());
+      moveToTrash(selected, `Deleted ${selected.length} observations`);
       return;
     }
 
-    const newHistory = history.map(item => {
-      if (selectedIds.has(item.id)) {
-        if (action === 'favorite') return { ...item, isFavorite: !item.isFavorite };
-        if (action === 'incorrect') return { ...item, isIncorrect: !item.isIncorrect };
+    const updated = selected.map(item => action === 'favorite'
+      ? applyAuditedUpdate(item, { isFavorite: !item.isFavorite }, 'Toggled favorite')
+      : applyAuditedUpdate(item, { isIncorrect: !item.isIncorrect }, 'Toggled incorrect flag'));
+
+    onEditEntries(`Toggled ${action === 'favorite' ? 'favorite' : 'incorrect flag'} on ${selected.length} observations`, updated);
+    // Don't clear selection for tagging actions to allow consecutive tagging
+  };
+
+  const getExportSelection = () => {
+    return selectedEntries.length > 0 ? selectedEntries : history;
+  };
+
+  const exportToCSV = async () => {
+    // Photos are only read from storage when the image column is exported.
+    const selection = csvColumns.includes('image') ? await withObservationImages(getExportSelection()) : getExportSelection();
+    const csvContent = historyToCSV(selection, csvColumns);
+    downloadFile(csvContent, 'text/csv;charset=utf-8;', `flora_analytics_export_${Date.now()}.csv`);
+    setShowCsvColumns(false);
+  };
+
+  const toggleCsvColumn = (key: CsvColumnKey) => {
+    setCsvColumns(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handleImportCSV = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    const csvFile = files.find(f => f.name.toLowerCase().endsWith('.csv'));
+    if (!csvFile) {
+      window.alert("Select a .csv file (optionally together with the images it references).");
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await csvFile.text();
+    } catch {
+      window.alert(`${csvFile.name} could not be read.`);
+      return;
+    }
+
+    // Rows referencing an unreadable image are imported without it.
+    const imageErrors: string[] = [];
+    const imagesByName = new Map<string, string>();
+    for (const file of filterImageFiles(files.filter(f => f !== csvFile))) {
+      try {
+        imagesByName.set(file.name, (await preprocessImage(file)).dataUrl);
+      } catch {
+        imageErrors.push(`Image "${file.name}" could not be read.`);
       }
-      return item;
+    }
+
+    const result = historyFromCSV(text, imagesByName);
+    const { records } = result;
+    const errors = [...imageErrors, ...result.errors];
+    // Trashed entries count as existing, otherwise an imported row would replace one.
+    const existingIds = new Set([...allHistory, ...trashed].map(item => item.id));
+    const fresh = records.filter(r => !existingIds.has(r.id));
+    // Only the first row with a given id is imported.
+    const seenIds = new Set<string>();
+    const added = fresh.filter(r => {
+      if (seenIds.has(r.id)) return false;
+      seenIds.add(r.id);
+      return true;
     });
 
-    onUpdateHistory(newHistory);
-    // Don't clear selection for tagging actions to allow consecutive tagging
+    if (added.length > 0) {
+      onUpdateHistory([...added, ...allHistory].sort((a, b) => b.timestamp - a.timestamp));
+    }
+    setImportReport({ added: added.length, skipped: records.length - fresh.length, duplicates: fresh.length - added.length, errors });
   };
 
-  const exportToCSV = () => {
-    const dataToExport = selectedIds.size > 0 
-      ? history.filter(item => selectedIds.has(item.id))
-      : history;
-
-    const headers = ['ID', 'Name', 'Scientific Name', 'Invasive', 'Confidence', 'Analysis Time (s)', 'Lat', 'Lng', 'Timestamp', 'Favorite', 'Incorrect'];
-    const rows = dataToExport.map(item => [
-      item.id,
-      `"${item.name}"`,
-      `"${item.scientificName}"`,
-      item.isInvasive ? 'Yes' : 'No',
-      `${(item.confidence * 100).toFixed(1)}%`,
-      item.analysisTime.toFixed(2),
-      item.coordinates?.lat || 'N/A',
-      item.coordinates?.lng || 'N/A',
-      new Date(item.timestamp).toLocaleString(),
-      item.isFavorite ? 'Yes' : 'No',
-      item.isIncorrect ? 'Yes' : 'No'
-    ]);
-
-    const csvContent = [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `flora_analytics_export_${Date.now()}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const exportGeo = (format: 'geojson' | 'kml') => {
+    const dataToExport = getExportSelection();
+    if (getGeolocated(dataToExport).length === 0) {
+      window.alert("None of the exported observations have coordinates.");
+      return;
+    }
+
+    if (format === 'geojson') {
+      downloadFile(toGeoJSON(dataToExport, surveys), 'application/geo+json', `flora_observations_${Date.now()}.geojson`);
+    } else {
+      downloadFile(toKML(dataToExport, surveys), 'application/vnd.google-earth.kml+xml', `flora_observations_${Date.now()}.kml`);
+    }
   };
 
+  const geolocatedCount = getGeolocated(getExportSelection()).length;
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-2xl font-bold text-slate-800">Identification Log</h2>
           <p className="text-slate-500">Manage and audit your plant discovery history.</p>
+          <div className="flex items-center gap-2 mt-2">
+            <button
+              onClick={onUndo}
+              disabled={!undoLabel}
+              title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              className="px-3 py-1 rounded-lg text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-1.5"
+            >
+              <i className="fas fa-undo"></i> Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!redoLabel}
+              title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="px-3 py-1 rounded-lg text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-40 flex items-center gap-1.5"
+            >
+              <i className="fas fa-redo"></i> Redo
+            </button>
+            {undoLabel && <span className="text-xs text-slate-400 truncate max-w-xs">Last: {undoLabel}</span>}
+          </div>
         </div>
         <div className="flex items-center gap-3">
+          <SurveyFilter surveys={surveys} value={surveyFilter} onChange={handleSurveyFilterChange} />
+          <input 
+            type="file" 
+            accept=".csv,text/csv,image/*" 
+            multiple 
+            className="hidden" 
+            id="import-csv" 
+            onChange={handleImportCSV} 
+          />
+          <label 
+            htmlFor="import-csv" 
+            className="px-6 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium hover:bg-slate-50 cursor-pointer flex items-center gap-2 transition-colors"
+          >
+            <i className="fas fa-file-import"></i>
+            Import CSV
+          </label>
           <button 
             onClick={handleClear}
-            disabled={history.length === 0}
+            disabled={allHistory.length === 0}
             className="px-6 py-2.5 bg-white text-red-600 border border-red-200 rounded-lg font-medium hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
           >
             <i className="fas fa-trash-alt"></i>
             Wipe All
           </button>
           <button 
-            onClick={exportToCSV}
-            disabled={history.length === 0}
-            className="px-6 py-2.5 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg"
+            onClick={() => setShowTrash(true)}
+            className="px-4 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium hover:bg-slate-50 flex items-center gap-2 transition-colors"
           >
-            <i className="fas fa-file-excel"></i>
-            {selectedIds.size > 0 ? `Export Selected (${selectedIds.size})` : 'Export All CSV'}
+            <i className="fas fa-trash-restore"></i>
+            Trash ({trashed.length})
           </button>
+          <button 
+            onClick={() => setReidentifyTargets(getExportSelection())}
+            disabled={history.length === 0 || profiles.length === 0}
+            title="Re-run identification against the current training database"
+            className="px-4 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
+          >
+            <i className="fas fa-sync-alt"></i>
+            {selectedEntries.length > 0 ? `Re-identify (${selectedEntries.length})` : 'Re-identify All'}
+          </button>
+          <div className="relative">
+            <button 
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={history.length === 0}
+              className="px-6 py-2.5 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 shadow-lg"
+            >
+              <i className="fas fa-file-export"></i>
+              {selectedEntries.length > 0 ? `Export Selected (${selectedEntries.length})` : 'Export All'}
+              <i className="fas fa-chevron-down text-xs"></i>
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-2 w-56 bg-white rounded-xl shadow-xl border border-slate-200 z-20 overflow-hidden">
+                {[
+                  { label: 'CSV Spreadsheet', icon: 'fa-file-excel', action: () => setShowCsvColumns(true), disabled: false },
+                  { label: `GeoJSON (${geolocatedCount} points)`, icon: 'fa-draw-polygon', action: () => exportGeo('geojson'), disabled: geolocatedCount === 0 },
+                  { label: `KML (${geolocatedCount} points)`, icon: 'fa-globe-americas', action: () => exportGeo('kml'), disabled: geolocatedCount === 0 }
+                ].map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => { setShowExportMenu(false); option.action(); }}
+                    disabled={option.disabled}
+                    className="w-full px-4 py-3 text-left text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-3"
+                  >
+                    <i className={`fas ${option.icon} w-4 text-slate-400`}></i>
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
+      {showCsvColumns && (
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-4">
+          <div className="flex justify-between items-center">
+            <p className="font-bold text-slate-800">CSV Columns</p>
+            <div className="flex gap-3 text-xs font-bold">
+              <button onClick={() => setCsvColumns(CSV_COLUMNS.map(c => c.key))} className="text-emerald-700 hover:underline">All</button>
+              <button onClick={() => setCsvColumns(DEFAULT_CSV_COLUMNS)} className="text-slate-500 hover:underline">Defaults</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {CSV_COLUMNS.map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                  checked={csvColumns.includes(column.key)}
+                  onChange={() => toggleCsvColumn(column.key)}
+                />
+                {column.header}
+                {column.key === 'image' && <span className="text-[10px] text-amber-600">(large)</span>}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={exportToCSV}
+              disabled={csvColumns.length === 0}
+              className="px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-900 disabled:opacity-50 flex items-center gap-2"
+            >
+              <i className="fas fa-download"></i>
+              Download CSV ({getExportSelection().length} rows)
+            </button>
+            <button
+              onClick={() => setShowCsvColumns(false)}
+              className="px-4 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {importReport && (
+        <div className={`p-4 rounded-xl border flex justify-between gap-4 ${importReport.errors.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-emerald-50 border-emerald-200 text-emerald-800'}`}>
+          <div className="text-sm">
+            <p className="font-bold">
+              Imported {importReport.added} observations
+              {importReport.skipped > 0 && `, skipped ${importReport.skipped} already in the log or trash`}
+              {importReport.duplicates > 0 && `, skipped ${importReport.duplicates} repeating an id earlier in the file`}.
+            </p>
+            {importReport.errors.length > 0 && (
+              <ul className="mt-2 list-disc list-inside text-xs space-y-0.5 max-h-32 overflow-y-auto">
+                {importReport.errors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            )}
+          </div>
+          <button onClick={() => setImportReport(null)} className="self-start opacity-60 hover:opacity-100">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      )}
+
+      <HistoryFilters
+        query={query}
+        speciesOptions={getSpeciesOptions(surveyHistory)}
+        resultCount={history.length}
+        totalCount={surveyHistory.length}
+        onChange={handleQueryChange}
+      />
+
       {/* Bulk Actions Toolbar */}
-      {selectedIds.size > 0 && (
+      {selectedEntries.length > 0 && (
         <div className="bg-emerald-600 text-white p-4 rounded-xl shadow-lg flex items-center justify-between animate-in fade-in slide-in-from-top-4 duration-300">
           <div className="flex items-center gap-4">
             <span className="font-bold text-sm bg-emerald-700 px-3 py-1 rounded-full">
-              {selectedIds.size} Selected
+              {selectedEntries.length} Selected
             </span>
             <div className="h-6 w-px bg-emerald-500 mx-2"></div>
             <button 
@@ -136,12 +430,19 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
             >
               <i className="fas fa-times-circle"></i> Toggle Incorrect
             </button>
+            <button 
+              onClick={() => setReidentifyTargets(selectedEntries)}
+              disabled={profiles.length === 0}
+              className="flex items-center gap-2 hover:bg-emerald-500 px-3 py-1.5 rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              <i className="fas fa-sync-alt"></i> Re-identify
+            </button>
           </div>
           <button 
             onClick={() => applyBulkAction('delete')}
             className="flex items-center gap-2 bg-red-500 hover:bg-red-600 px-4 py-1.5 rounded-lg transition-colors text-sm font-bold shadow-sm"
           >
-            <i className="fas fa-trash-alt"></i> Delete Selected
+            <i className="fas fa-trash-alt"></i> Move to Trash
           </button>
         </div>
       )}
@@ -155,22 +456,22 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
                   <input 
                     type="checkbox" 
                     className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500 cursor-pointer"
-                    checked={history.length > 0 && selectedIds.size === history.length}
+                    checked={history.length > 0 && selectedEntries.length === history.length}
                     onChange={toggleSelectAll}
                   />
                 </th>
-                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Plant</th>
-                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Status</th>
-                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Confidence</th>
-                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Speed (s)</th>
-                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Coordinates</th>
-                <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider">Timestamp</th>
+                {renderSortHeader('name', 'Plant')}
+                {renderSortHeader('status', 'Status')}
+                {renderSortHeader('confidence', 'Confidence')}
+                {renderSortHeader('analysisTime', 'Speed (s)')}
+                {renderSortHeader('coordinates', 'Coordinates')}
+                {renderSortHeader('timestamp', 'Timestamp')}
                 <th className="px-6 py-4 text-xs font-bold text-slate-500 uppercase tracking-wider text-right">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {history.map((item) => {
-                const isUnknown = item.name === "No Database Match Found";
+              {pagedHistory.map((item) => {
+                const isUnknown = item.name === UNKNOWN_PLANT_NAME;
                 const isSelected = selectedIds.has(item.id);
                 
                 return (
@@ -189,7 +490,20 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-3">
                         <div className="relative">
-                          <img src={item.imageUrl} className="w-10 h-10 rounded-lg object-cover ring-1 ring-slate-200" alt={item.name} />
+                          {item.thumbnailUrl ? (
+                            <button onClick={() => setDetailId(item.id)} className="block">
+                              <img 
+                                src={item.thumbnailUrl} 
+                                loading="lazy" 
+                                className="w-10 h-10 rounded-lg object-cover ring-1 ring-slate-200 hover:ring-2 hover:ring-emerald-500 transition-all" 
+                                alt={item.name} 
+                              />
+                            </button>
+                          ) : (
+                            <div className="w-10 h-10 rounded-lg bg-slate-100 ring-1 ring-slate-200 flex items-center justify-center text-slate-300">
+                              <i className="fas fa-image"></i>
+                            </div>
+                          )}
                           {item.isFavorite && (
                             <div className="absolute -top-1 -right-1 bg-amber-400 text-white w-4 h-4 rounded-full flex items-center justify-center text-[10px] shadow-sm ring-1 ring-white">
                               <i className="fas fa-star"></i>
@@ -207,6 +521,23 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
                               {item.name}
                             </p>
                             {item.isFavorite && <i className="fas fa-star text-amber-400 text-[10px]"></i>}
+                            {item.review && (
+                              <span
+                                className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${item.review.decision === 'rejected' ? 'bg-red-50 text-red-600' : 'bg-emerald-50 text-emerald-700'}`}
+                                title={`${REVIEW_DECISION_LABELS[item.review.decision]} by ${item.review.reviewer} on ${new Date(item.review.reviewedAt).toLocaleString()}`}
+                              >
+                                <i className={`fas ${item.review.decision === 'rejected' ? 'fa-user-times' : 'fa-user-check'} mr-1`}></i>
+                                {item.review.decision === 'rejected' ? 'Rejected' : 'Verified'}
+                              </span>
+                            )}
+                            {item.imageHash && duplicateCounts.has(item.imageHash) && (
+                              <span
+                                className="px-1.5 py-0.5 rounded bg-violet-100 text-violet-700 text-[10px] font-bold uppercase"
+                                title={`The same photo appears in ${duplicateCounts.get(item.imageHash)} observations`}
+                              >
+                                <i className="fas fa-clone mr-1"></i>Duplicate ×{duplicateCounts.get(item.imageHash)}
+                              </span>
+                            )}
                           </div>
                           <p className="text-xs text-slate-400 italic">{item.scientificName}</p>
                           {item.detectedObjects && item.detectedObjects.length > 0 && (
@@ -215,6 +546,12 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
                               {item.detectedObjects.length} objects detected
                             </p>
                           )}
+                          {item.videoSource && (
+                            <p className="text-[10px] text-blue-600 font-medium mt-1" title={`Video ${item.videoSource.videoId}`}>
+                              <i className="fas fa-film mr-1"></i>
+                              {item.videoSource.fileName} @ {formatFrameTime(item.videoSource.frameTime)}
+                            </p>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -259,38 +596,124 @@ const History: React.FC<HistoryProps> = ({ history, onClear, onUpdateHistory, on
                     </td>
                     <td className="px-6 py-4 text-xs text-slate-400">
                       {new Date(item.timestamp).toLocaleString()}
+                      {item.surveyId && surveyNames.has(item.surveyId) && (
+                        <p className="text-[10px] text-slate-500 font-medium mt-1">
+                          <i className="fas fa-clipboard-list mr-1"></i>
+                          {surveyNames.get(item.surveyId)}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      {item.isIncorrect && !item.correctedData && (
+                      <div className="flex items-center justify-end gap-2">
                         <button 
-                          onClick={() => onStartCorrection(item)}
-                          className="px-3 py-1.5 bg-amber-100 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-200 transition-colors flex items-center gap-1.5 ml-auto"
+                          onClick={() => setDetailId(item.id)}
+                          className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                          title="View details"
                         >
-                          <i className="fas fa-edit"></i>
-                          Correct
+                          <i className="fas fa-eye"></i>
                         </button>
-                      )}
-                      {item.correctedData && (
-                        <div className="text-xs text-emerald-600 font-bold flex items-center gap-1.5 justify-end">
-                          <i className="fas fa-check-double"></i>
-                          Corrected
-                        </div>
-                      )}
+                        <button 
+                          onClick={() => setReidentifyTargets([item])}
+                          disabled={!hasObservationImage(item) || profiles.length === 0}
+                          className="w-8 h-8 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 disabled:opacity-30 transition-colors"
+                          title="Re-identify"
+                        >
+                          <i className="fas fa-sync-alt"></i>
+                        </button>
+                        {item.isIncorrect && !item.correctedData && (
+                          <button 
+                            onClick={() => onStartCorrection(item)}
+                            className="px-3 py-1.5 bg-amber-100 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-200 transition-colors flex items-center gap-1.5 ml-auto"
+                          >
+                            <i className="fas fa-edit"></i>
+                            Correct
+                          </button>
+                        )}
+                        {item.correctedData && (
+                          <div className="text-xs text-emerald-600 font-bold flex items-center gap-1.5 justify-end">
+                            <i className="fas fa-check-double"></i>
+                            Corrected
+                          </div>
+                        )}
+                      </div>
                     </td>
                   </tr>
                 );
               })}
               {history.length === 0 && (
                 <tr>
-                  <td colSpan={7} className="px-6 py-12 text-center text-slate-400">
-                    No records found in database.
+                  <td colSpan={8} className="px-6 py-12 text-center text-slate-400">
+                    {surveyHistory.length > 0 ? 'No records match the current filters.' : 'No records found in database.'}
                   </td>
                 </tr>
               )}
             </tbody>
           </table>
         </div>
+        {history.length > 0 && (
+          <div className="px-6 py-3 border-t border-slate-200 bg-slate-50 flex items-center justify-between text-xs text-slate-500">
+            <div className="flex items-center gap-2">
+              Rows per page
+              <select
+                value={pageSize}
+                onChange={(e) => { setPageSize(Number(e.target.value)); setPage(0); }}
+                className="px-2 py-1 rounded border border-slate-200 bg-white outline-none"
+              >
+                {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="font-mono">
+                {currentPage * pageSize + 1}–{Math.min((currentPage + 1) * pageSize, history.length)} of {history.length}
+              </span>
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="w-8 h-8 rounded-lg hover:bg-slate-200 disabled:opacity-30 transition-colors"
+              >
+                <i className="fas fa-chevron-left"></i>
+              </button>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="w-8 h-8 rounded-lg hover:bg-slate-200 disabled:opacity-30 transition-colors"
+              >
+                <i className="fas fa-chevron-right"></i>
+              </button>
+            </div>
+          </div>
+        )}
       </div>
+
+      {reidentifyTargets && (
+        <ReidentifyDialog
+          entries={reidentifyTargets}
+          profiles={profiles}
+          onApply={(updated) => onEditEntries(`Re-identified ${updated.length} observations`, updated)}
+          onClose={() => setReidentifyTargets(null)}
+        />
+      )}
+
+      {showTrash && (
+        <TrashBin
+          entries={trashed}
+          onRestore={(entries) => onEditEntries(
+            `Restored ${entries.length} observations`,
+            entries.map(item => applyAuditedUpdate(item, { deletedAt: undefined }, 'Restored from trash'))
+          )}
+          onPurge={onPurge}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {detailEntry && (
+        <ObservationDetail 
+          entry={detailEntry} 
+          surveys={surveys}
+          onUpdate={(updated) => onUpdateHistory(allHistory.map(item => item.id === updated.id ? updated : item))}
+          onClose={() => setDetailId(null)} 
+        />
+      )}
     </div>
   );
 };
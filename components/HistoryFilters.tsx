@@ -0,0 +1,161 @@
+
+import React, { useState } from 'react';
+import { DEFAULT_HISTORY_QUERY, HistoryQuery, countActiveFilters } from '../services/historyQuery';
+
+interface HistoryFiltersProps {
+  query: HistoryQuery;
+  speciesOptions: string[];
+  resultCount: number;
+  totalCount: number;
+  onChange: (query: HistoryQuery) => void;
+}
+
+const selectClass = "w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 focus:ring-2 focus:ring-emerald-500 outline-none bg-white";
+const labelClass = "text-[10px] font-bold text-slate-400 uppercase tracking-widest";
+
+const HistoryFilters: React.FC<HistoryFiltersProps> = ({ query, speciesOptions, resultCount, totalCount, onChange }) => {
+  const [showFacets, setShowFacets] = useState(false);
+  const activeFilters = countActiveFilters(query);
+
+  const update = <K extends keyof HistoryQuery>(key: K, value: HistoryQuery[K]) => {
+    onChange({ ...query, [key]: value });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-3 p-3">
+        <div className="flex-1 flex items-center gap-2 px-3 py-2 bg-slate-50 rounded-lg border border-slate-200">
+          <i className="fas fa-search text-slate-400 text-sm"></i>
+          <input
+            value={query.text}
+            onChange={(e) => update('text', e.target.value)}
+            placeholder="Search name, scientific name, correction or ID..."
+            className="flex-1 bg-transparent outline-none text-sm text-slate-700"
+          />
+          {query.text && (
+            <button onClick={() => update('text', '')} className="text-slate-400 hover:text-slate-600">
+              <i className="fas fa-times text-xs"></i>
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFacets(!showFacets)}
+          className={`px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors ${showFacets || activeFilters > 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        >
+          <i className="fas fa-sliders-h"></i>
+          Filters
+          {activeFilters > 0 && <span className="bg-emerald-600 text-white text-[10px] px-1.5 rounded-full">{activeFilters}</span>}
+        </button>
+        <span className="text-xs text-slate-500 font-mono whitespace-nowrap">{resultCount} / {totalCount}</span>
+      </div>
+
+      {showFacets && (
+        <div className="border-t border-slate-100 p-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <label className={labelClass}>Species</label>
+            <select value={query.species} onChange={(e) => update('species', e.target.value)} className={selectClass}>
+              <option value="">All species</option>
+              {speciesOptions.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Invasiveness</label>
+            <select value={query.invasive} onChange={(e) => update('invasive', e.target.value as HistoryQuery['invasive'])} className={selectClass}>
+              <option value="any">Any</option>
+              <option value="invasive">Invasive only</option>
+              <option value="safe">Safe only</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Unknown Specimens</label>
+            <select value={query.unknown} onChange={(e) => update('unknown', e.target.value as HistoryQuery['unknown'])} className={selectClass}>
+              <option value="any">Include</option>
+              <option value="only">Only unknown</option>
+              <option value="exclude">Exclude</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Review Status</label>
+            <select value={query.review} onChange={(e) => update('review', e.target.value as HistoryQuery['review'])} className={selectClass}>
+              <option value="any">Any</option>
+              <option value="incorrect">Flagged incorrect</option>
+              <option value="corrected">Corrected</option>
+              <option value="unflagged">Not flagged</option>
+              <option value="verified">Verified by a reviewer</option>
+              <option value="unverified">Not yet verified</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Confidence (%)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={query.minConfidence}
+                onChange={(e) => update('minConfidence', Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                className={selectClass}
+              />
+              <span className="text-slate-400">–</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={query.maxConfidence}
+                onChange={(e) => update('maxConfidence', Math.min(100, Math.max(0, Number(e.target.value) || 0)))}
+                className={selectClass}
+              />
+            </div>
+          </div>
+          <div className="space-y-1 col-span-2">
+            <label className={labelClass}>Date Range</label>
+            <div className="flex items-center gap-2">
+              <input type="date" value={query.dateFrom} onChange={(e) => update('dateFrom', e.target.value)} className={selectClass} />
+              <span className="text-slate-400">–</span>
+              <input type="date" value={query.dateTo} onChange={(e) => update('dateTo', e.target.value)} className={selectClass} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Coordinates</label>
+            <select value={query.hasCoordinates} onChange={(e) => update('hasCoordinates', e.target.value as HistoryQuery['hasCoordinates'])} className={selectClass}>
+              <option value="any">Any</option>
+              <option value="yes">Geolocated</option>
+              <option value="no">Missing</option>
+            </select>
+          </div>
+          <div className="col-span-full flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                checked={query.favoriteOnly}
+                onChange={(e) => update('favoriteOnly', e.target.checked)}
+              />
+              <i className="fas fa-star text-amber-400"></i>
+              Favorites only
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                checked={query.duplicatesOnly}
+                onChange={(e) => update('duplicatesOnly', e.target.checked)}
+              />
+              <i className="fas fa-clone text-violet-500"></i>
+              Duplicate photos only
+            </label>
+            <button
+              onClick={() => onChange({ ...DEFAULT_HISTORY_QUERY, sortKey: query.sortKey, sortDirection: query.sortDirection })}
+              disabled={activeFilters === 0}
+              className="text-xs font-bold text-slate-500 hover:text-slate-700 disabled:opacity-40"
+            >
+              Reset filters
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryFilters;
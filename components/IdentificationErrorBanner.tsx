@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { ERROR_DETAILS, IdentificationError } from '../services/identificationErrors';
+
+interface IdentificationErrorBannerProps {
+  error: IdentificationError;
+  onRetry?: () => void;
+  onWorkOffline?: () => void;
+  onDismiss: () => void;
+}
+
+const IdentificationErrorBanner: React.FC<IdentificationErrorBannerProps> = ({ error, onRetry, onWorkOffline, onDismiss }) => {
+  const details = ERROR_DETAILS[error.kind];
+  const isConnectivity = error.kind === 'quota' || error.kind === 'auth' || error.kind === 'network';
+
+  return (
+    <div className={`mt-4 p-4 rounded-lg border max-w-md w-full text-left ${
+      error.kind === 'empty-database' ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-red-50 border-red-100 text-red-700'
+    }`}>
+      <div className="flex items-start gap-3">
+        <i className={`fas ${details.icon} mt-0.5`}></i>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-bold">{details.title}</p>
+          <p className="text-xs mt-1 opacity-80">{details.hint}</p>
+          <p className="text-[10px] font-mono mt-2 opacity-60 break-words">{error.message}</p>
+          {(onRetry || onWorkOffline) && (
+            <div className="flex gap-2 mt-3">
+              {onRetry && error.retryable && (
+                <button onClick={onRetry} className="px-3 py-1.5 bg-white border border-current/20 rounded-lg text-xs font-bold hover:bg-white/70 flex items-center gap-1.5">
+                  <i className="fas fa-redo"></i> Retry
+                </button>
+              )}
+              {onWorkOffline && isConnectivity && (
+                <button onClick={onWorkOffline} className="px-3 py-1.5 bg-white border border-current/20 rounded-lg text-xs font-bold hover:bg-white/70 flex items-center gap-1.5">
+                  <i className="fas fa-plug-circle-xmark"></i> Use Local Quick Match
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        <button onClick={onDismiss} className="opacity-60 hover:opacity-100">
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IdentificationErrorBanner;
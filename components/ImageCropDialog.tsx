@@ -0,0 +1,120 @@
+
+import React, { useRef, useState } from 'react';
+import { CropRegion, cropImage } from '../services/imageUtils';
+
+interface ImageCropDialogProps {
+  image: string;
+  onApply: (cropped: string) => void;
+  onClose: () => void;
+}
+
+// Selections smaller than this (as a fraction of the image) are treated as a stray click.
+const MIN_CROP_SIZE = 0.05;
+
+const ImageCropDialog: React.FC<ImageCropDialogProps> = ({ image, onApply, onClose }) => {
+  const [region, setRegion] = useState<CropRegion | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const toFraction = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toFraction(e);
+    setRegion(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const point = toFraction(e);
+    setRegion({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    if (region && (region.width < MIN_CROP_SIZE || region.height < MIN_CROP_SIZE)) setRegion(null);
+  };
+
+  const apply = async () => {
+    if (!region) return;
+    setIsSaving(true);
+    try {
+      onApply(await cropImage(image, region));
+    } catch (err: any) {
+      setError(err.message || "Could not crop the image.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Crop Image</h3>
+            <p className="text-xs text-slate-400">Drag across the image to select the area to keep.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 flex justify-center bg-slate-50">
+          <div
+            ref={frameRef}
+            className="relative inline-block overflow-hidden cursor-crosshair select-none touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={image} className="max-h-[60vh] block pointer-events-none" alt="" draggable={false} />
+            {region && (
+              <div
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(15,23,42,0.55)]"
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex justify-between items-center">
+          <span className="text-xs text-red-600">{error}</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200">
+              Cancel
+            </button>
+            <button
+              onClick={apply}
+              disabled={!region || isSaving}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              <i className="fas fa-crop-alt"></i>
+              Apply Crop
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropDialog;
@@ -0,0 +1,71 @@
+
+import React, { useState } from 'react';
+import { DEFAULT_PREPROCESS_SETTINGS, PreprocessSettings, getPreprocessSettings, savePreprocessSettings } from '../services/imagePreprocessing';
+
+interface ImagePreprocessSettingsProps {
+  disabled?: boolean;
+}
+
+const DIMENSION_OPTIONS = [800, 1024, 1280, 1600, 2048, 3072];
+const QUALITY_OPTIONS = [0.7, 0.8, 0.85, 0.9, 0.95];
+
+const ImagePreprocessSettings: React.FC<ImagePreprocessSettingsProps> = ({ disabled }) => {
+  const [settings, setSettings] = useState<PreprocessSettings>(getPreprocessSettings);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (updates: Partial<PreprocessSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    savePreprocessSettings(next);
+  };
+
+  return (
+    <div className="border-t border-slate-100 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center text-xs text-slate-500 hover:text-slate-700"
+      >
+        <span>
+          <i className="fas fa-compress mr-2 text-emerald-600"></i>
+          Uploads are resized to <strong>{settings.maxDimension}px</strong> and stored as JPEG at {Math.round(settings.quality * 100)}% quality
+        </span>
+        <i className={`fas fa-chevron-${isOpen ? 'up' : 'down'}`}></i>
+      </button>
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-3 items-end">
+          <label className="text-xs font-bold text-slate-500 space-y-1">
+            <span>Max Size</span>
+            <select
+              value={settings.maxDimension}
+              disabled={disabled}
+              onChange={(e) => update({ maxDimension: Number(e.target.value) })}
+              className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              {DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+          <label className="text-xs font-bold text-slate-500 space-y-1">
+            <span>JPEG Quality</span>
+            <select
+              value={settings.quality}
+              disabled={disabled}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              {QUALITY_OPTIONS.map(quality => <option key={quality} value={quality}>{Math.round(quality * 100)}%</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => update(DEFAULT_PREPROCESS_SETTINGS)}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-xs font-bold hover:bg-slate-200 disabled:opacity-50"
+          >
+            Reset Defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImagePreprocessSettings;
@@ -1,20 +1,26 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { AppView } from '../types';
+import { getCurrentUser, setCurrentUser } from '../services/auditService';
 
 interface LayoutProps {
   currentView: AppView;
   onViewChange: (view: AppView) => void;
+  onOpenBackup: () => void;
   children: React.ReactNode;
 }
 
-const Layout: React.FC<LayoutProps> = ({ currentView, onViewChange, children }) => {
+const Layout: React.FC<LayoutProps> = ({ currentView, onViewChange, onOpenBackup, children }) => {
+  const [userName, setUserName] = useState(getCurrentUser);
+
   const menuItems = [
     { id: AppView.DASHBOARD, label: 'Dashboard', icon: 'fa-chart-pie' },
     { id: AppView.ANALYZE, label: 'Analyze', icon: 'fa-camera' },
     { id: AppView.TRAINING, label: 'Training DB', icon: 'fa-database' },
     { id: AppView.MAP, label: 'Observation Map', icon: 'fa-map-marked-alt' },
     { id: AppView.HISTORY, label: 'History & Export', icon: 'fa-history' },
+    { id: AppView.REVIEW, label: 'Review Queue', icon: 'fa-clipboard-check' },
+    { id: AppView.EVALUATION, label: 'Evaluation', icon: 'fa-flask' },
   ];
 
   return (
@@ -43,6 +49,14 @@ const Layout: React.FC<LayoutProps> = ({ currentView, onViewChange, children })
           ))}
         </nav>
 
+        <button
+          onClick={onOpenBackup}
+          className="mx-6 mb-4 flex items-center gap-3 px-4 py-2 rounded-lg text-sm text-emerald-100 hover:bg-emerald-800/50 transition-colors"
+        >
+          <i className="fas fa-file-archive w-5"></i>
+          <span className="font-medium">Backup & Restore</span>
+        </button>
+
         <div className="p-6 text-xs text-emerald-300 border-t border-emerald-800">
           <p>© 2024 FloraID Analytics</p>
           <p>Version 2.0.4 - Enterprise</p>
@@ -60,6 +74,13 @@ const Layout: React.FC<LayoutProps> = ({ currentView, onViewChange, children })
               <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></span>
               Live Tracking Active
             </div>
+            <input
+              value={userName}
+              onChange={(e) => setUserName(e.target.value)}
+              onBlur={() => { setCurrentUser(userName); setUserName(getCurrentUser()); }}
+              title="Name recorded in observation change logs"
+              className="w-32 px-2 py-1 text-sm text-right text-slate-600 bg-transparent border border-transparent rounded hover:border-slate-200 focus:border-emerald-500 outline-none"
+            />
             <img src="https://picsum.photos/32/32" className="w-8 h-8 rounded-full ring-2 ring-emerald-500" alt="Avatar" />
           </div>
         </header>
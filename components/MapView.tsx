@@ -1,15 +1,20 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { PlantAnalysis } from '../types';
+import { PlantAnalysis, Survey } from '../types';
 import { GoogleGenAI } from "@google/genai";
+import { filterBySurvey } from '../services/surveyService';
+import SurveyFilter from './SurveyFilter';
 
 interface MapViewProps {
   history: PlantAnalysis[];
+  surveys: Survey[];
 }
 
-const MapView: React.FC<MapViewProps> = ({ history }) => {
+const MapView: React.FC<MapViewProps> = ({ history: allHistory, surveys }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const [surveyFilter, setSurveyFilter] = useState<string | null>(null);
+  const history = filterBySurvey(allHistory, surveyFilter);
   const [locationInsight, setLocationInsight] = useState<string | null>(null);
   const [isGeneratingInsight, setIsGeneratingInsight] = useState(false);
 
@@ -158,18 +163,21 @@ const MapView: React.FC<MapViewProps> = ({ history }) => {
           <h2 className="text-2xl font-bold text-slate-800">Observation Heatmap</h2>
           <p className="text-slate-500">Visualizing plant discovery density and invasive clusters.</p>
         </div>
-        <button 
-          onClick={generateInsight}
-          disabled={isGeneratingInsight || points.length === 0}
-          className="px-6 py-2.5 bg-emerald-600 text-white rounded-lg font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2 shadow-lg transition-all"
-        >
-          {isGeneratingInsight ? (
-            <i className="fas fa-circle-notch animate-spin"></i>
-          ) : (
-            <i className="fas fa-map-marked-alt"></i>
-          )}
-          Get Location Insights
-        </button>
+        <div className="flex items-center gap-3">
+          <SurveyFilter surveys={surveys} value={surveyFilter} onChange={setSurveyFilter} />
+          <button 
+            onClick={generateInsight}
+            disabled={isGeneratingInsight || points.length === 0}
+            className="px-6 py-2.5 bg-emerald-600 text-white rounded-lg font-medium hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2 shadow-lg transition-all"
+          >
+            {isGeneratingInsight ? (
+              <i className="fas fa-circle-notch animate-spin"></i>
+            ) : (
+              <i className="fas fa-map-marked-alt"></i>
+            )}
+            Get Location Insights
+          </button>
+        </div>
       </div>
 
       <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-200 flex flex-col items-center">
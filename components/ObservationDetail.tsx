@@ -0,0 +1,268 @@
+
+import React, { useState } from 'react';
+import { PlantAnalysis, Survey } from '../types';
+import { applyAuditedUpdate } from '../services/auditService';
+import { formatFrameTime } from '../services/videoSampler';
+import { formatSurveyLabel } from '../services/surveyService';
+import { REVIEW_DECISION_LABELS } from '../services/reviewService';
+import useObservationImage from './useObservationImage';
+
+interface ObservationDetailProps {
+  entry: PlantAnalysis;
+  surveys: Survey[];
+  onUpdate: (entry: PlantAnalysis) => void;
+  onClose: () => void;
+}
+
+const ObservationDetail: React.FC<ObservationDetailProps> = ({ entry, surveys, onUpdate, onClose }) => {
+  const { imageUrl, isLoading: isImageLoading } = useObservationImage(entry);
+  const [isFullImageLoaded, setIsFullImageLoaded] = useState(false);
+  const [showDetection, setShowDetection] = useState(true);
+  const [notes, setNotes] = useState(entry.notes || '');
+  const [tagInput, setTagInput] = useState('');
+
+  const tags = entry.tags || [];
+  const survey = surveys.find(s => s.id === entry.surveyId);
+  const notesChanged = notes !== (entry.notes || '');
+
+  const saveNotes = () => {
+    onUpdate(applyAuditedUpdate(entry, { notes }, 'Edited field notes'));
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim().toLowerCase();
+    setTagInput('');
+    if (!tag || tags.includes(tag)) return;
+    onUpdate(applyAuditedUpdate(entry, { tags: [...tags, tag] }, `Added tag "${tag}"`));
+  };
+
+  const removeTag = (tag: string) => {
+    onUpdate(applyAuditedUpdate(entry, { tags: tags.filter(t => t !== tag) }, `Removed tag "${tag}"`));
+  };
+
+  const comparisonRows = [
+    { label: 'Common Name', original: entry.name, corrected: entry.correctedData?.name },
+    { label: 'Scientific Name', original: entry.scientificName, corrected: entry.correctedData?.scientificName },
+    {
+      label: 'Invasive',
+      original: entry.isInvasive ? 'Yes' : 'No',
+      corrected: entry.correctedData ? (entry.correctedData.isInvasive ? 'Yes' : 'No') : undefined
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">{entry.correctedData?.name || entry.name}</h3>
+            <p className="text-xs text-slate-400 italic">{entry.correctedData?.scientificName || entry.scientificName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="relative rounded-xl overflow-hidden bg-slate-100 ring-1 ring-slate-200">
+              {/* The full photo is read from storage on open; the thumbnail stands in until then. */}
+              {entry.thumbnailUrl && !isFullImageLoaded && (
+                <img src={entry.thumbnailUrl} className="w-full blur-sm" alt="" />
+              )}
+              {imageUrl ? (
+                <img
+                  src={imageUrl}
+                  onLoad={() => setIsFullImageLoaded(true)}
+                  className={`w-full ${isFullImageLoaded ? '' : 'absolute inset-0 opacity-0'}`}
+                  alt={entry.name}
+                />
+              ) : !(isImageLoading && entry.thumbnailUrl) && (
+                <div className="aspect-square flex items-center justify-center text-slate-300 text-4xl">
+                  <i className="fas fa-image"></i>
+                </div>
+              )}
+              {(imageUrl || isImageLoading) && !isFullImageLoaded && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-8 h-8 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              )}
+              {isFullImageLoaded && showDetection && entry.detectedObjects && (
+                <div className="absolute inset-0 pointer-events-none">
+                  {entry.detectedObjects.map((obj, idx) => (
+                    <div 
+                      key={idx}
+                      className="absolute border-2 border-emerald-400 bg-emerald-400/10"
+                      style={{
+                        top: `${obj.box_2d.ymin / 10}%`,
+                        left: `${obj.box_2d.xmin / 10}%`,
+                        width: `${(obj.box_2d.xmax - obj.box_2d.xmin) / 10}%`,
+                        height: `${(obj.box_2d.ymax - obj.box_2d.ymin) / 10}%`,
+                      }}
+                    >
+                      <span className="absolute top-0 left-0 bg-emerald-400 text-emerald-950 text-[10px] font-bold px-1.5 py-0.5 whitespace-nowrap">
+                        {obj.label} ({(obj.confidence * 100).toFixed(0)}%)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            {entry.detectedObjects && entry.detectedObjects.length > 0 && (
+              <button 
+                onClick={() => setShowDetection(!showDetection)}
+                className="w-full py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 transition-colors flex items-center justify-center gap-2"
+              >
+                <i className={`fas ${showDetection ? 'fa-eye-slash' : 'fa-eye'}`}></i>
+                {showDetection ? 'Hide' : 'Show'} {entry.detectedObjects.length} Bounding Boxes
+              </button>
+            )}
+
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              <dt className="text-slate-400">Record ID</dt>
+              <dd className="font-mono text-slate-700">{entry.id}</dd>
+              <dt className="text-slate-400">Confidence</dt>
+              <dd className="font-mono text-slate-700">{(entry.confidence * 100).toFixed(1)}%</dd>
+              <dt className="text-slate-400">Analysis Time</dt>
+              <dd className="font-mono text-slate-700">{entry.analysisTime.toFixed(2)}s</dd>
+              <dt className="text-slate-400">Recorded</dt>
+              <dd className="text-slate-700">{new Date(entry.timestamp).toLocaleString()}</dd>
+              <dt className="text-slate-400">Coordinates</dt>
+              <dd className="font-mono text-slate-700">
+                {entry.coordinates ? `${entry.coordinates.lat.toFixed(5)}, ${entry.coordinates.lng.toFixed(5)}` : 'N/A'}
+              </dd>
+              <dt className="text-slate-400">Matched Profile</dt>
+              <dd className="font-mono text-slate-700">{entry.matchedProfileId || 'N/A'}</dd>
+              <dt className="text-slate-400">Survey</dt>
+              <dd className="text-slate-700">{survey ? formatSurveyLabel(survey) : 'Unassigned'}</dd>
+              <dt className="text-slate-400">Flags</dt>
+              <dd className="text-slate-700">
+                {[entry.isFavorite && 'Favorite', entry.isIncorrect && 'Incorrect'].filter(Boolean).join(', ') || 'None'}
+              </dd>
+              <dt className="text-slate-400">Review</dt>
+              <dd className="text-slate-700">
+                {entry.review
+                  ? `${REVIEW_DECISION_LABELS[entry.review.decision]} by ${entry.review.reviewer}, ${new Date(entry.review.reviewedAt).toLocaleDateString()}`
+                  : 'Unverified'}
+              </dd>
+              {entry.videoSource && (
+                <>
+                  <dt className="text-slate-400">Video Frame</dt>
+                  <dd className="text-slate-700">{entry.videoSource.fileName} @ {formatFrameTime(entry.videoSource.frameTime)}</dd>
+                </>
+              )}
+            </dl>
+          </div>
+
+          <div className="space-y-6">
+            <div>
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Identification</p>
+              <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden">
+                <thead>
+                  <tr className="bg-slate-50 text-xs text-slate-500">
+                    <th className="px-3 py-2 text-left font-bold"></th>
+                    <th className="px-3 py-2 text-left font-bold">Model Result</th>
+                    <th className="px-3 py-2 text-left font-bold">Correction</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {comparisonRows.map(row => (
+                    <tr key={row.label}>
+                      <td className="px-3 py-2 text-xs text-slate-400">{row.label}</td>
+                      <td className={`px-3 py-2 text-slate-700 ${row.corrected !== undefined && row.corrected !== row.original ? 'line-through text-slate-400' : ''}`}>
+                        {row.original}
+                      </td>
+                      <td className="px-3 py-2 font-medium text-emerald-700">{row.corrected ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {entry.candidates && entry.candidates.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Ranked Candidates</p>
+                <ol className="space-y-1.5">
+                  {entry.candidates.map((candidate, idx) => (
+                    <li key={candidate.profileId} className="text-sm flex gap-3">
+                      <span className="font-mono text-xs text-slate-400 w-10 pt-0.5">{(candidate.confidence * 100).toFixed(0)}%</span>
+                      <div className="min-w-0">
+                        <p className={`font-medium ${idx === 0 ? 'text-slate-800' : 'text-slate-600'}`}>
+                          {candidate.name} <span className="text-xs italic text-slate-400">{candidate.scientificName}</span>
+                        </p>
+                        {candidate.rationale && <p className="text-xs text-slate-400">{candidate.rationale}</p>}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Field Notes</p>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={4}
+                placeholder="Habitat, phenology, abundance, access notes..."
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+              />
+              <button
+                onClick={saveNotes}
+                disabled={!notesChanged}
+                className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 disabled:opacity-40 transition-colors"
+              >
+                Save Notes
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Tags</p>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                  <span key={tag} className="inline-flex items-center gap-1.5 px-2 py-1 bg-slate-100 text-slate-700 rounded text-xs font-medium">
+                    {tag}
+                    <button onClick={() => removeTag(tag)} className="text-slate-400 hover:text-red-500">
+                      <i className="fas fa-times text-[10px]"></i>
+                    </button>
+                  </span>
+                ))}
+                <input
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') addTag(); }}
+                  placeholder="Add tag + Enter"
+                  className="px-2 py-1 rounded border border-dashed border-slate-300 text-xs outline-none focus:border-emerald-500 w-32"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">Change Log</p>
+              <ol className="space-y-3 border-l-2 border-slate-200 pl-4">
+                {[...(entry.changeLog || [])].reverse().map((event, idx) => (
+                  <li key={idx} className="text-xs">
+                    <p className="text-slate-700">
+                      <span className="font-bold">{event.user}</span> · {event.action}
+                    </p>
+                    <p className="text-slate-400">{new Date(event.timestamp).toLocaleString()}</p>
+                    {event.changes.map(change => (
+                      <p key={change.field} className="font-mono text-[10px] text-slate-500 mt-0.5 break-all">
+                        {change.field}: <span className="text-red-500">{change.from}</span> → <span className="text-emerald-600">{change.to}</span>
+                      </p>
+                    ))}
+                  </li>
+                ))}
+                {(!entry.changeLog || entry.changeLog.length === 0) && (
+                  <li className="text-xs text-slate-400">No recorded changes.</li>
+                )}
+              </ol>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ObservationDetail;
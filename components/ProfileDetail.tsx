@@ -0,0 +1,288 @@
+
+import React, { useEffect, useState } from 'react';
+import { PLANT_ORGANS, PlantAnalysis, PlantOrgan, PlantProfile } from '../types';
+import {
+  addProfileImages,
+  getProfileImages,
+  moveProfileImage,
+  removeProfileImage,
+  replaceProfileImage,
+  setCoverImage,
+  setImageOrgan
+} from '../services/profileImages';
+import { getEffectiveProfileId } from '../services/historyQuery';
+import { filterImageFiles, preprocessImage } from '../services/imagePreprocessing';
+import ImageCropDialog from './ImageCropDialog';
+
+interface ProfileDetailProps {
+  profile: PlantProfile;
+  history: PlantAnalysis[];
+  onEdit: (id: string, updates: Partial<PlantProfile>) => void;
+  onDelete: (id: string) => void;
+  onSplit: () => void;
+  onBack: () => void;
+}
+
+const MAX_LISTED_OBSERVATIONS = 50;
+
+const ProfileDetail: React.FC<ProfileDetailProps> = ({ profile, history, onEdit, onDelete, onSplit, onBack }) => {
+  const [organFilter, setOrganFilter] = useState<PlantOrgan | 'untagged' | null>(null);
+  const [cropIndex, setCropIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const images = getProfileImages(profile);
+  const organCounts = images.reduce((acc, entry) => {
+    const key = entry.organ || 'untagged';
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const visibleImages = images
+    .map((entry, index) => ({ ...entry, index }))
+    .filter(entry => !organFilter || (entry.organ || 'untagged') === organFilter);
+
+  const observations = history
+    .filter(item => getEffectiveProfileId(item) === profile.id)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const correctedCount = observations.filter(item => item.correctedData).length;
+
+  const update = (updates: Partial<PlantProfile>) => onEdit(profile.id, updates);
+
+  // Text fields are edited locally and saved on blur; every saved change re-persists
+  // the profile and re-fingerprints the profile set.
+  type TextField = 'name' | 'scientificName' | 'description';
+  const savedText = { name: profile.name, scientificName: profile.scientificName, description: profile.description };
+  const [draft, setDraft] = useState<Record<TextField, string>>(savedText);
+  useEffect(() => {
+    setDraft(savedText);
+  }, [profile.id, profile.name, profile.scientificName, profile.description]);
+
+  const textFieldProps = (field: TextField) => ({
+    value: draft[field],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(prev => ({ ...prev, [field]: e.target.value })),
+    onBlur: () => {
+      if (draft[field] !== profile[field]) update({ [field]: draft[field] });
+    }
+  });
+
+  const handleAddImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = filterImageFiles(Array.from(e.target.files || []) as File[]);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const added: string[] = [];
+    for (const file of files) {
+      try {
+        added.push((await preprocessImage(file)).dataUrl);
+      } catch {
+        // Skip files the browser cannot decode.
+      }
+    }
+    if (added.length > 0) update(addProfileImages(profile, added));
+  };
+
+  const handleRemove = (index: number) => {
+    if (window.confirm("Remove this image from the profile?")) update(removeProfileImage(profile, index));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) update(moveProfileImage(profile, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the profile "${profile.name}" and its ${profile.images.length} images?`)) return;
+    onDelete(profile.id);
+    onBack();
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="text-sm font-medium text-slate-500 hover:text-slate-800 flex items-center gap-2">
+        <i className="fas fa-arrow-left"></i>
+        Training Database
+      </button>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 flex flex-col md:flex-row gap-6">
+        <div className="w-32 h-32 rounded-xl overflow-hidden bg-slate-100 border border-slate-200 flex-shrink-0 flex items-center justify-center text-slate-300">
+          {profile.images[0] ? <img src={profile.images[0]} className="w-full h-full object-cover" alt="" /> : <i className="fas fa-image text-3xl"></i>}
+        </div>
+        <div className="flex-1 min-w-0 space-y-2">
+          <input
+            className="text-2xl font-bold text-slate-800 border-none p-0 focus:ring-0 w-full bg-transparent"
+            {...textFieldProps('name')}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          />
+          <input
+            className="text-slate-500 italic border-none p-0 focus:ring-0 w-full bg-transparent"
+            {...textFieldProps('scientificName')}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          />
+          <textarea
+            className="w-full text-sm text-slate-600 border border-slate-200 rounded-lg p-2 outline-none focus:ring-2 focus:ring-emerald-500"
+            rows={2}
+            {...textFieldProps('description')}
+            placeholder="Description"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => update({ isInvasive: !profile.isInvasive })}
+              className={`text-[10px] px-2 py-0.5 rounded font-bold uppercase ${profile.isInvasive ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-500'}`}
+            >
+              {profile.isInvasive ? 'Invasive' : 'Safe Species'}
+            </button>
+            <span className="text-xs text-slate-400">Added {new Date(profile.dateCreated).toLocaleDateString()} · <span className="font-mono">{profile.id}</span></span>
+          </div>
+        </div>
+        <div className="flex md:flex-col gap-2">
+          <button
+            onClick={onSplit}
+            disabled={profile.images.length < 2}
+            className="px-4 py-2 bg-slate-100 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-200 disabled:opacity-50 flex items-center gap-2"
+          >
+            <i className="fas fa-cut"></i> Split
+          </button>
+          <button
+            onClick={handleDelete}
+            className="px-4 py-2 bg-white text-red-600 border border-red-200 rounded-lg text-sm font-bold hover:bg-red-50 flex items-center gap-2"
+          >
+            <i className="fas fa-trash-alt"></i> Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Images ({images.length})</h3>
+            <p className="text-xs text-slate-400">Drag to reorder. The first image is the cover and the first reference sent to the model.</p>
+          </div>
+          <input type="file" id="profile-add-images" className="hidden" multiple accept="image/*" onChange={handleAddImages} />
+          <label htmlFor="profile-add-images" className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 cursor-pointer flex items-center gap-2">
+            <i className="fas fa-plus"></i> Add Images
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <button
+            onClick={() => setOrganFilter(null)}
+            className={`px-3 py-1 rounded-full font-bold ${organFilter === null ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600'}`}
+          >
+            All {images.length}
+          </button>
+          {[...PLANT_ORGANS, 'untagged' as const].map(organ => (
+            <button
+              key={organ}
+              onClick={() => setOrganFilter(organFilter === organ ? null : organ)}
+              disabled={!organCounts[organ]}
+              className={`px-3 py-1 rounded-full font-bold capitalize disabled:opacity-40 ${organFilter === organ ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600'}`}
+            >
+              {organ} {organCounts[organ] || 0}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+          {visibleImages.map(({ image, organ, index }) => (
+            <div
+              key={`${index}-${image.length}`}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`group rounded-xl border overflow-hidden bg-white ${dragIndex === index ? 'opacity-40' : ''} ${index === 0 ? 'border-emerald-400 ring-2 ring-emerald-200' : 'border-slate-200'}`}
+            >
+              <div className="relative aspect-square bg-slate-100 cursor-move">
+                <img src={image} loading="lazy" className="w-full h-full object-cover pointer-events-none" alt="" />
+                {index === 0 && (
+                  <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-emerald-500 text-white text-[10px] font-bold uppercase">Cover</span>
+                )}
+                <div className="absolute inset-x-0 bottom-0 p-1 flex justify-center gap-1 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => update(moveProfileImage(profile, index, index - 1))} disabled={index === 0} className="w-7 h-7 rounded text-white hover:bg-white/20 disabled:opacity-30" title="Move earlier">
+                    <i className="fas fa-chevron-left text-xs"></i>
+                  </button>
+                  <button onClick={() => update(setCoverImage(profile, index))} disabled={index === 0} className="w-7 h-7 rounded text-white hover:bg-white/20 disabled:opacity-30" title="Set as cover">
+                    <i className="fas fa-star text-xs"></i>
+                  </button>
+                  <button onClick={() => setCropIndex(index)} className="w-7 h-7 rounded text-white hover:bg-white/20" title="Crop">
+                    <i className="fas fa-crop-alt text-xs"></i>
+                  </button>
+                  <button onClick={() => handleRemove(index)} className="w-7 h-7 rounded text-white hover:bg-red-500/80" title="Remove">
+                    <i className="fas fa-trash-alt text-xs"></i>
+                  </button>
+                  <button onClick={() => update(moveProfileImage(profile, index, index + 1))} disabled={index === images.length - 1} className="w-7 h-7 rounded text-white hover:bg-white/20 disabled:opacity-30" title="Move later">
+                    <i className="fas fa-chevron-right text-xs"></i>
+                  </button>
+                </div>
+              </div>
+              <select
+                value={organ || ''}
+                onChange={(e) => update(setImageOrgan(profile, index, (e.target.value || null) as PlantOrgan | null))}
+                className="w-full px-2 py-1.5 text-xs border-0 border-t border-slate-100 text-slate-600 capitalize outline-none"
+              >
+                <option value="">Untagged</option>
+                {PLANT_ORGANS.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </div>
+          ))}
+          {images.length === 0 && (
+            <div className="col-span-full py-12 text-center text-slate-400">
+              <i className="fas fa-images text-3xl mb-3"></i>
+              <p>No images yet. Profiles without images can only be matched by name.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Matched Observations ({observations.length})</h3>
+          <p className="text-xs text-slate-400">
+            Observations identified as this profile, including {correctedCount} assigned to it by correction.
+          </p>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {observations.slice(0, MAX_LISTED_OBSERVATIONS).map(item => (
+            <div key={item.id} className="px-6 py-3 flex items-center gap-4 text-sm">
+              {item.thumbnailUrl ? (
+                <img src={item.thumbnailUrl} loading="lazy" className="w-10 h-10 rounded object-cover" alt="" />
+              ) : (
+                <div className="w-10 h-10 rounded bg-slate-100 flex items-center justify-center text-slate-300">
+                  <i className="fas fa-image"></i>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-slate-800 truncate">
+                  {item.name}
+                  {item.correctedData && <span className="ml-2 text-[10px] font-bold text-amber-600 uppercase">Corrected</span>}
+                </p>
+                <p className="text-xs text-slate-400">{new Date(item.timestamp).toLocaleString()}</p>
+              </div>
+              <span className="font-mono text-slate-600">{(item.confidence * 100).toFixed(1)}%</span>
+            </div>
+          ))}
+          {observations.length > MAX_LISTED_OBSERVATIONS && (
+            <p className="px-6 py-3 text-xs text-slate-400">
+              And {observations.length - MAX_LISTED_OBSERVATIONS} more. Use History to browse them all.
+            </p>
+          )}
+          {observations.length === 0 && (
+            <p className="px-6 py-8 text-center text-slate-400">No observations have been matched to this profile yet.</p>
+          )}
+        </div>
+      </div>
+
+      {cropIndex !== null && profile.images[cropIndex] && (
+        <ImageCropDialog
+          image={profile.images[cropIndex]}
+          onApply={(cropped) => {
+            update(replaceProfileImage(profile, cropIndex, cropped));
+            setCropIndex(null);
+          }}
+          onClose={() => setCropIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfileDetail;
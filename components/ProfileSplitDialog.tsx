@@ -0,0 +1,120 @@
+
+import React, { useState } from 'react';
+import { PlantProfile } from '../types';
+import { splitProfile } from '../services/profileService';
+
+interface ProfileSplitDialogProps {
+  profile: PlantProfile;
+  onSplit: (remaining: PlantProfile, created: PlantProfile) => void;
+  onClose: () => void;
+}
+
+const ProfileSplitDialog: React.FC<ProfileSplitDialogProps> = ({ profile, onSplit, onClose }) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [name, setName] = useState('');
+  const [scientificName, setScientificName] = useState('');
+  const [isInvasive, setIsInvasive] = useState(false);
+
+  // A split must leave at least one image behind; otherwise it is a rename.
+  const canSplit = selected.size > 0 && selected.size < profile.images.length && !!name.trim();
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setSelected(next);
+  };
+
+  const submit = () => {
+    if (!canSplit) return;
+    const images = profile.images.filter((_, i) => selected.has(i));
+    const { remaining, created } = splitProfile(profile, images, {
+      name: name.trim(),
+      scientificName: scientificName.trim(),
+      isInvasive
+    });
+    onSplit(remaining, created);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Split {profile.name}</h3>
+            <p className="text-xs text-slate-400">Select the images that belong to a different species.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+            {profile.images.map((image, i) => (
+              <button
+                key={i}
+                onClick={() => toggle(i)}
+                className={`relative aspect-square rounded-lg overflow-hidden ring-2 transition-all ${selected.has(i) ? 'ring-emerald-500' : 'ring-transparent hover:ring-slate-300'}`}
+              >
+                <img src={image} loading="lazy" className="w-full h-full object-cover" alt="" />
+                {selected.has(i) && (
+                  <div className="absolute top-1 right-1 w-5 h-5 bg-emerald-500 text-white rounded-full flex items-center justify-center text-[10px]">
+                    <i className="fas fa-check"></i>
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <label className="text-sm font-bold text-slate-700 space-y-1">
+              <span>New Profile Name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </label>
+            <label className="text-sm font-bold text-slate-700 space-y-1">
+              <span>Scientific Name</span>
+              <input
+                value={scientificName}
+                onChange={(e) => setScientificName(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 font-normal italic outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isInvasive}
+              onChange={(e) => setIsInvasive(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Invasive species
+          </label>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center">
+          <span className="text-xs text-slate-500">
+            {selected.size} of {profile.images.length} images selected. Existing observations stay linked to {profile.name}.
+          </span>
+          <button
+            onClick={submit}
+            disabled={!canSplit}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <i className="fas fa-cut"></i>
+            Move to New Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSplitDialog;
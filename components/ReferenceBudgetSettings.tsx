@@ -0,0 +1,98 @@
+
+import React, { useState } from 'react';
+import { PlantProfile } from '../types';
+import {
+  ReferenceBudget,
+  DEFAULT_REFERENCE_BUDGET,
+  estimateImageTokens,
+  getReferenceBudget,
+  saveReferenceBudget,
+  selectReferenceImages
+} from '../services/referenceImages';
+
+interface ReferenceBudgetSettingsProps {
+  profiles: PlantProfile[];
+  disabled?: boolean;
+}
+
+const DIMENSION_OPTIONS = [256, 384, 512, 768];
+
+const ReferenceBudgetSettings: React.FC<ReferenceBudgetSettingsProps> = ({ profiles, disabled }) => {
+  const [budget, setBudget] = useState<ReferenceBudget>(getReferenceBudget);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const selected = selectReferenceImages(profiles, budget);
+  const imageCount = selected.length;
+  const coveredProfiles = new Set(selected.map(ref => ref.profileId)).size;
+  const estimatedTokens = imageCount * estimateImageTokens(budget.maxDimension);
+
+  const update = (updates: Partial<ReferenceBudget>) => {
+    const next = { ...budget, ...updates };
+    setBudget(next);
+    saveReferenceBudget(next);
+  };
+
+  return (
+    <div className="border-t border-slate-100 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center text-xs text-slate-500 hover:text-slate-700"
+      >
+        <span>
+          <i className="fas fa-images mr-2 text-emerald-600"></i>
+          Sending <strong>{imageCount}</strong> reference images covering {coveredProfiles}/{profiles.length} profiles
+          (≈{estimatedTokens.toLocaleString()} tokens)
+        </span>
+        <i className={`fas fa-chevron-${isOpen ? 'up' : 'down'}`}></i>
+      </button>
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mt-3 items-end">
+          <label className="text-xs font-bold text-slate-500 space-y-1">
+            <span>Per Profile</span>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={budget.maxImagesPerProfile}
+              disabled={disabled}
+              onChange={(e) => update({ maxImagesPerProfile: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+          <label className="text-xs font-bold text-slate-500 space-y-1">
+            <span>Total Images</span>
+            <input
+              type="number"
+              min={0}
+              max={200}
+              value={budget.maxTotalImages}
+              disabled={disabled}
+              onChange={(e) => update({ maxTotalImages: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+          <label className="text-xs font-bold text-slate-500 space-y-1">
+            <span>Max Size</span>
+            <select
+              value={budget.maxDimension}
+              disabled={disabled}
+              onChange={(e) => update({ maxDimension: Number(e.target.value) })}
+              className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-normal outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              {DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => update(DEFAULT_REFERENCE_BUDGET)}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-xs font-bold hover:bg-slate-200 disabled:opacity-50"
+          >
+            Reset Defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceBudgetSettings;
@@ -0,0 +1,245 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PlantAnalysis, PlantProfile } from '../types';
+import { analyzePlantWithContext, getActiveProvider } from '../services/identificationService';
+import { BatchQueue, BatchQueueSnapshot, createBatchQueue } from '../services/batchQueue';
+import { isTransientIdentificationError } from '../services/identificationErrors';
+import { hasObservationImage, loadObservationImage } from '../services/storageService';
+import {
+  ReidentifyDecision,
+  ReidentifyRow,
+  applyReidentification,
+  diffResults,
+  summarizeReidentification
+} from '../services/reidentifyService';
+
+interface ReidentifyDialogProps {
+  entries: PlantAnalysis[];
+  profiles: PlantProfile[];
+  onApply: (updated: PlantAnalysis[]) => void;
+  onClose: () => void;
+}
+
+const REIDENTIFY_CONCURRENCY = 2;
+
+const ReidentifyDialog: React.FC<ReidentifyDialogProps> = ({ entries, profiles, onApply, onClose }) => {
+  const [rows, setRows] = useState<ReidentifyRow[]>(() => entries.map(entry => ({ entry })));
+  const [batch, setBatch] = useState<BatchQueueSnapshot<PlantAnalysis> | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const queueRef = useRef<BatchQueue | null>(null);
+
+  useEffect(() => {
+    const updateRow = (id: string, update: Partial<ReidentifyRow>) => {
+      setRows(prev => prev.map(row => row.entry.id === id ? { ...row, ...update } : row));
+    };
+
+    const queue = createBatchQueue<PlantAnalysis>(
+      entries.filter(hasObservationImage).map(entry => ({ label: entry.id, payload: entry })),
+      {
+        concurrency: REIDENTIFY_CONCURRENCY,
+        maxRetries: 5,
+        baseDelayMs: 2000,
+        maxDelayMs: 60000,
+        isRetryable: isTransientIdentificationError,
+        onChange: snapshot => {
+          setBatch(snapshot);
+          snapshot.items.forEach(item => {
+            if (item.status === 'failed') updateRow(item.payload.id, { error: item.error || 'Failed' });
+          });
+        },
+        worker: async entry => {
+          const imageUrl = await loadObservationImage(entry);
+          const result = await analyzePlantWithContext(imageUrl, profiles, { imageHash: entry.imageHash });
+          // Unchanged results need no review, so they default to rejected.
+          updateRow(entry.id, { result, error: undefined, decision: diffResults(entry, result).changed ? undefined : 'reject' });
+        }
+      }
+    );
+    queueRef.current = queue;
+    queue.start();
+    return () => queue.cancel();
+  }, []);
+
+  const decide = (id: string, decision: ReidentifyDecision) => {
+    setRows(prev => prev.map(row => row.entry.id === id ? { ...row, decision } : row));
+  };
+
+  const decideAllChanged = (decision: ReidentifyDecision) => {
+    setRows(prev => prev.map(row => row.result && diffResults(row.entry, row.result).changed ? { ...row, decision } : row));
+  };
+
+  const applyDecisions = () => {
+    const accepted = rows
+      .filter(row => row.result && row.decision === 'accept')
+      .map(row => applyReidentification(row.entry, row.result!));
+    if (accepted.length > 0) onApply(accepted);
+    onClose();
+  };
+
+  const summary = summarizeReidentification(rows);
+  const isRunning = !!batch && batch.items.some(item => item.status === 'pending' || item.status === 'running');
+  const skipped = entries.filter(entry => !hasObservationImage(entry)).length;
+  const acceptedCount = rows.filter(row => row.result && row.decision === 'accept').length;
+  const visibleRows = rows.filter(row => !row.result || showUnchanged || diffResults(row.entry, row.result).changed);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Re-identify Observations</h3>
+            <p className="text-xs text-slate-400">
+              {entries.length} observations against {profiles.length} current profiles via {getActiveProvider().label}
+              {skipped > 0 && ` · ${skipped} without an image skipped`}
+            </p>
+          </div>
+          <button onClick={() => { queueRef.current?.cancel(); onClose(); }} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-b border-slate-200 grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+          {[
+            { label: 'Processed', value: `${summary.completed + summary.failed} / ${entries.length - skipped}` },
+            { label: 'Changed', value: summary.changed },
+            { label: 'Newly Matched', value: summary.newlyMatched },
+            {
+              label: 'Agree w/ Corrections',
+              value: summary.correctionsChecked > 0 ? `${summary.correctionsAgreeing} / ${summary.correctionsChecked}` : '—'
+            },
+            {
+              label: 'Mean Δ Confidence',
+              value: `${summary.meanConfidenceDelta >= 0 ? '+' : ''}${(summary.meanConfidenceDelta * 100).toFixed(1)}%`
+            }
+          ].map(stat => (
+            <div key={stat.label}>
+              <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{stat.label}</p>
+              <p className="text-lg font-bold text-slate-800 font-mono">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-white border-b border-slate-200 text-xs text-slate-500 uppercase">
+              <tr>
+                <th className="px-4 py-3 w-14"></th>
+                <th className="px-4 py-3">Stored Result</th>
+                <th className="px-4 py-3">New Result</th>
+                <th className="px-4 py-3 text-right">Decision</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleRows.map(({ entry, result, error, decision }) => {
+                const diff = result ? diffResults(entry, result) : null;
+                return (
+                  <tr key={entry.id} className={decision === 'accept' ? 'bg-emerald-50/50' : ''}>
+                    <td className="px-4 py-3">
+                      {entry.thumbnailUrl ? (
+                        <img src={entry.thumbnailUrl} loading="lazy" className="w-10 h-10 rounded object-cover" alt="" />
+                      ) : (
+                        <div className="w-10 h-10 rounded bg-slate-100"></div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className={`font-bold ${entry.isInvasive ? 'text-red-600' : 'text-slate-700'}`}>{entry.name}</p>
+                      <p className="text-xs text-slate-400 font-mono">{(entry.confidence * 100).toFixed(1)}%</p>
+                      {entry.correctedData && (
+                        <p className="text-[10px] text-amber-600 font-medium">Corrected to: {entry.correctedData.name}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {result && diff ? (
+                        <>
+                          <p className={`font-bold ${result.isInvasive ? 'text-red-600' : 'text-slate-700'} ${diff.nameChanged ? 'underline decoration-emerald-400 decoration-2' : ''}`}>
+                            {result.name}
+                            {diff.invasiveChanged && <span className="ml-2 text-[10px] uppercase text-red-500">invasive status changed</span>}
+                          </p>
+                          <p className="text-xs font-mono text-slate-400">
+                            {(result.confidence * 100).toFixed(1)}%
+                            <span className={diff.confidenceDelta >= 0 ? 'text-emerald-600 ml-2' : 'text-red-500 ml-2'}>
+                              ({diff.confidenceDelta >= 0 ? '+' : ''}{(diff.confidenceDelta * 100).toFixed(1)})
+                            </span>
+                            {result.fromCache && <span className="ml-2 text-slate-300">cached</span>}
+                          </p>
+                        </>
+                      ) : error ? (
+                        <p className="text-xs text-red-600">{error}</p>
+                      ) : (
+                        <p className="text-xs text-slate-400 flex items-center gap-2">
+                          <span className="w-3 h-3 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></span>
+                          Waiting...
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {result && diff?.changed && (
+                        <div className="inline-flex rounded-lg border border-slate-200 overflow-hidden text-xs font-bold">
+                          <button
+                            onClick={() => decide(entry.id, 'accept')}
+                            className={`px-3 py-1.5 ${decision === 'accept' ? 'bg-emerald-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                          >
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => decide(entry.id, 'reject')}
+                            className={`px-3 py-1.5 border-l border-slate-200 ${decision === 'reject' ? 'bg-slate-700 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                      {result && !diff?.changed && <span className="text-xs text-slate-400">No change</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+              {visibleRows.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-12 text-center text-slate-400">
+                    {isRunning ? 'Waiting for results...' : 'No observations changed.'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-200 flex flex-wrap justify-between items-center gap-3">
+          <div className="flex items-center gap-3 text-xs">
+            <label className="flex items-center gap-2 text-slate-500 cursor-pointer">
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+              />
+              Show unchanged ({summary.unchanged})
+            </label>
+            <button onClick={() => decideAllChanged('accept')} className="font-bold text-emerald-700 hover:underline">Accept all changes</button>
+            <button onClick={() => decideAllChanged('reject')} className="font-bold text-slate-500 hover:underline">Reject all changes</button>
+          </div>
+          <div className="flex gap-2">
+            {isRunning && (
+              <button
+                onClick={() => queueRef.current?.cancel()}
+                className="px-4 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200"
+              >
+                Stop
+              </button>
+            )}
+            <button
+              onClick={applyDecisions}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 flex items-center gap-2"
+            >
+              <i className="fas fa-check"></i>
+              {acceptedCount > 0 ? `Apply ${acceptedCount} Accepted` : 'Close Without Changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReidentifyDialog;
@@ -0,0 +1,56 @@
+
+import React, { useEffect, useState } from 'react';
+import { isCacheBypassed, setCacheBypassed } from '../services/resultCache';
+import { clearCachedResults, countCachedResults } from '../services/storageService';
+
+interface ResultCacheSettingsProps {
+  disabled?: boolean;
+}
+
+const ResultCacheSettings: React.FC<ResultCacheSettingsProps> = ({ disabled }) => {
+  const [bypass, setBypass] = useState(isCacheBypassed);
+  const [cachedCount, setCachedCount] = useState<number | null>(null);
+
+  // Refreshed after each run (disabled flips back to false) so the count stays current.
+  useEffect(() => {
+    if (disabled) return;
+    countCachedResults().then(setCachedCount).catch(() => setCachedCount(null));
+  }, [disabled]);
+
+  const toggleBypass = () => {
+    setCacheBypassed(!bypass);
+    setBypass(!bypass);
+  };
+
+  const clearCache = async () => {
+    if (!window.confirm("Clear all cached identification results? Photos will be sent to the backend again.")) return;
+    await clearCachedResults();
+    setCachedCount(0);
+  };
+
+  return (
+    <div className="border-t border-slate-100 pt-3 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+          checked={bypass}
+          disabled={disabled}
+          onChange={toggleBypass}
+        />
+        <span>
+          <strong>Bypass result cache</strong> — re-run the backend even for photos it has already identified against the current profiles
+        </span>
+      </label>
+      <button
+        onClick={clearCache}
+        disabled={disabled || !cachedCount}
+        className="px-3 py-1 rounded-lg font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-40"
+      >
+        Clear Cache{cachedCount !== null && ` (${cachedCount})`}
+      </button>
+    </div>
+  );
+};
+
+export default ResultCacheSettings;
@@ -0,0 +1,286 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PlantAnalysis, PlantProfile } from '../types';
+import {
+  REVIEW_REASON_LABELS,
+  ReviewSettings,
+  buildReviewQueue,
+  confirmIdentification,
+  getReviewSettings,
+  isVerified,
+  reassignIdentification,
+  rejectIdentification,
+  saveReviewSettings
+} from '../services/reviewService';
+import { getCurrentUser } from '../services/auditService';
+import { searchProfiles } from '../services/profileService';
+import useObservationImage from './useObservationImage';
+
+interface ReviewProps {
+  history: PlantAnalysis[];
+  profiles: PlantProfile[];
+  undoLabel?: string;
+  onEditEntries: (label: string, updated: PlantAnalysis[]) => void;
+  onUndo: () => void;
+}
+
+const MAX_PROFILE_MATCHES = 6;
+
+const KEY_HINTS = [
+  { keys: 'C', label: 'Confirm' },
+  { keys: 'X', label: 'Reject' },
+  { keys: '1–5', label: 'Reassign to candidate' },
+  { keys: 'R', label: 'Search profiles' },
+  { keys: '← / →', label: 'Previous / skip' },
+  { keys: 'Ctrl+Z', label: 'Undo' }
+];
+
+const Review: React.FC<ReviewProps> = ({ history, profiles, undoLabel, onEditEntries, onUndo }) => {
+  const [settings, setSettings] = useState<ReviewSettings>(getReviewSettings);
+  const [position, setPosition] = useState(0);
+  const [profileQuery, setProfileQuery] = useState('');
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  const queue = buildReviewQueue(history, settings);
+  const index = Math.min(position, Math.max(queue.length - 1, 0));
+  const current = queue[index];
+  const { imageUrl: currentImageUrl } = useObservationImage(current?.entry);
+  const reviewedCount = history.filter(isVerified).length;
+
+  const profilesById = new Map(profiles.map(p => [p.id, p]));
+  const candidateProfiles = (current?.entry.candidates || [])
+    .map(candidate => ({ candidate, profile: profilesById.get(candidate.profileId) }))
+    .filter((item): item is { candidate: typeof item.candidate; profile: PlantProfile } => !!item.profile)
+    .slice(0, 5);
+  const search = profileQuery.trim();
+  const profileMatches = searchProfiles(profiles, search, MAX_PROFILE_MATCHES);
+
+  const updateSettings = (updates: Partial<ReviewSettings>) => {
+    const next = { ...settings, ...updates };
+    saveReviewSettings(next);
+    setSettings(next);
+  };
+
+  // The reviewed entry drops out of the queue, so the same position shows the next one.
+  const decide = (label: string, updated: PlantAnalysis) => {
+    onEditEntries(label, [updated]);
+    setProfileQuery('');
+  };
+
+  const confirm = () => current && decide(`Confirmed ${current.entry.name}`, confirmIdentification(current.entry));
+  const reject = () => current && decide(`Rejected ${current.entry.name}`, rejectIdentification(current.entry));
+  const reassign = (profile: PlantProfile) => {
+    if (current) decide(`Reassigned ${current.entry.name} to ${profile.name}`, reassignIdentification(current.entry, profile));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z' && !e.shiftKey) {
+        if (!undoLabel) return;
+        e.preventDefault();
+        onUndo();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || !current) return;
+
+      if (key === 'c') {
+        confirm();
+      } else if (key === 'x') {
+        reject();
+      } else if (key === 'r') {
+        e.preventDefault();
+        searchRef.current?.focus();
+      } else if (key === 'arrowright') {
+        setPosition(Math.min(index + 1, queue.length - 1));
+      } else if (key === 'arrowleft') {
+        setPosition(Math.max(index - 1, 0));
+      } else if (/^[1-5]$/.test(key) && candidateProfiles[Number(key) - 1]) {
+        reassign(candidateProfiles[Number(key) - 1].profile);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && profileMatches[0]) {
+      reassign(profileMatches[0]);
+      searchRef.current?.blur();
+    } else if (e.key === 'Escape') {
+      setProfileQuery('');
+      searchRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">Review Queue</h2>
+          <p className="text-slate-500">
+            {queue.length} awaiting review · {reviewedCount} verified · reviewing as <span className="font-semibold text-slate-700">{getCurrentUser()}</span>
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 bg-white px-4 py-3 rounded-xl border border-slate-200 shadow-sm text-sm">
+          <label className="flex items-center gap-2 text-slate-600">
+            Below
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={settings.confidenceThreshold}
+              onChange={(e) => updateSettings({ confidenceThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+              className="w-16 px-2 py-1 rounded-lg border border-slate-200 font-mono text-right outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            % confidence
+          </label>
+          <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.includeUnknown}
+              onChange={(e) => updateSettings({ includeUnknown: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Unknowns
+          </label>
+          <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.includeInvasive}
+              onChange={(e) => updateSettings({ includeInvasive: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Invasive hits
+          </label>
+          <button
+            onClick={onUndo}
+            disabled={!undoLabel}
+            className="px-3 py-1.5 bg-slate-100 text-slate-600 rounded-lg font-bold hover:bg-slate-200 disabled:opacity-40"
+            title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+          >
+            <i className="fas fa-undo mr-1"></i> Undo
+          </button>
+        </div>
+      </div>
+
+      {!current ? (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm py-20 text-center text-slate-400">
+          <i className="fas fa-clipboard-check text-4xl mb-4 text-emerald-400"></i>
+          <p className="font-medium text-slate-600">Nothing left to review.</p>
+          <p className="text-sm">New results below the threshold, unknowns and invasive hits will appear here.</p>
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-3 bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+            <div className="relative rounded-lg overflow-hidden bg-slate-100">
+              {currentImageUrl || current.entry.thumbnailUrl ? (
+                <img src={currentImageUrl || current.entry.thumbnailUrl} className="w-full max-h-[60vh] object-contain" alt={current.entry.name} />
+              ) : (
+                <div className="aspect-video flex items-center justify-center text-slate-300 text-4xl">
+                  <i className="fas fa-image"></i>
+                </div>
+              )}
+            </div>
+            <div className="flex justify-between items-center mt-3 text-xs text-slate-500">
+              <button onClick={() => setPosition(Math.max(index - 1, 0))} disabled={index === 0} className="px-3 py-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-30">
+                <i className="fas fa-chevron-left mr-1"></i> Previous
+              </button>
+              <span className="font-mono">{index + 1} / {queue.length}</span>
+              <button onClick={() => setPosition(Math.min(index + 1, queue.length - 1))} disabled={index >= queue.length - 1} className="px-3 py-1.5 rounded-lg hover:bg-slate-100 disabled:opacity-30">
+                Skip <i className="fas fa-chevron-right ml-1"></i>
+              </button>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {current.reasons.map(reason => (
+                  <span
+                    key={reason}
+                    className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${reason === 'invasive' ? 'bg-red-100 text-red-700' : reason === 'unknown' ? 'bg-slate-100 text-slate-600' : 'bg-amber-100 text-amber-700'}`}
+                  >
+                    {REVIEW_REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <div>
+                <p className="text-xs font-bold text-slate-400 uppercase">Model says</p>
+                <p className="text-xl font-bold text-slate-800">{current.entry.name}</p>
+                <p className="text-sm italic text-slate-500">{current.entry.scientificName}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 bg-slate-100 h-1.5 rounded-full overflow-hidden">
+                  <div className="h-full bg-amber-500" style={{ width: `${current.entry.confidence * 100}%` }}></div>
+                </div>
+                <span className="text-sm font-mono text-slate-600">{(current.entry.confidence * 100).toFixed(1)}%</span>
+              </div>
+              <p className="text-xs text-slate-400">{new Date(current.entry.timestamp).toLocaleString()}</p>
+              <div className="grid grid-cols-2 gap-2 pt-2">
+                <button onClick={confirm} className="py-3 bg-emerald-600 text-white rounded-lg font-bold hover:bg-emerald-700 flex items-center justify-center gap-2">
+                  <i className="fas fa-check"></i> Confirm
+                  <kbd className="text-[10px] px-1 rounded bg-emerald-700">C</kbd>
+                </button>
+                <button onClick={reject} className="py-3 bg-white text-red-600 border border-red-200 rounded-lg font-bold hover:bg-red-50 flex items-center justify-center gap-2">
+                  <i className="fas fa-times"></i> Reject
+                  <kbd className="text-[10px] px-1 rounded bg-red-100">X</kbd>
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 space-y-3">
+              <p className="text-xs font-bold text-slate-400 uppercase">Reassign</p>
+              {candidateProfiles.map(({ candidate, profile }, i) => (
+                <button
+                  key={profile.id}
+                  onClick={() => reassign(profile)}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-lg border border-slate-200 hover:border-emerald-400 hover:bg-emerald-50 text-left"
+                >
+                  <kbd className="w-6 h-6 flex items-center justify-center rounded bg-slate-100 text-xs font-mono text-slate-600">{i + 1}</kbd>
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium text-slate-800 truncate">{profile.name}</span>
+                    <span className="block text-xs italic text-slate-400 truncate">{profile.scientificName}</span>
+                  </span>
+                  <span className="text-xs font-mono text-slate-500">{(candidate.confidence * 100).toFixed(0)}%</span>
+                </button>
+              ))}
+              <input
+                ref={searchRef}
+                value={profileQuery}
+                onChange={(e) => setProfileQuery(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                placeholder="Search all profiles (R)..."
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              {profileMatches.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => reassign(profile)}
+                  className="w-full px-3 py-2 rounded-lg hover:bg-slate-50 text-left text-sm"
+                >
+                  <span className="font-medium text-slate-800">{profile.name}</span>
+                  <span className="ml-2 text-xs italic text-slate-400">{profile.scientificName}</span>
+                  {profile.isInvasive && <span className="ml-2 text-[10px] font-bold text-red-600 uppercase">Invasive</span>}
+                </button>
+              ))}
+              {search && profileMatches.length === 0 && (
+                <p className="text-xs text-slate-400">No profile matches “{profileQuery}”.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-slate-500 px-1">
+              {KEY_HINTS.map(hint => (
+                <p key={hint.keys}><kbd className="font-mono text-slate-700">{hint.keys}</kbd> {hint.label}</p>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Review;
@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { Survey } from '../types';
+import { UNASSIGNED_SURVEY, formatSurveyLabel } from '../services/surveyService';
+
+interface SurveyFilterProps {
+  surveys: Survey[];
+  value: string | null;
+  onChange: (surveyFilter: string | null) => void;
+}
+
+const SurveyFilter: React.FC<SurveyFilterProps> = ({ surveys, value, onChange }) => {
+  const current = surveys.filter(s => s.status !== 'archived');
+  const archived = surveys.filter(s => s.status === 'archived');
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 bg-white rounded-lg border border-slate-200 shadow-sm">
+      <i className="fas fa-clipboard-list text-slate-400 text-sm"></i>
+      <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="text-sm font-medium text-slate-700 bg-transparent outline-none max-w-[16rem]"
+      >
+        <option value="">All Surveys</option>
+        <option value={UNASSIGNED_SURVEY}>No Survey</option>
+        {current.length > 0 && (
+          <optgroup label="Surveys">
+            {current.map(s => (
+              <option key={s.id} value={s.id}>{formatSurveyLabel(s)}{s.status === 'active' ? ' ●' : ''}</option>
+            ))}
+          </optgroup>
+        )}
+        {archived.length > 0 && (
+          <optgroup label="Archived">
+            {archived.map(s => (
+              <option key={s.id} value={s.id}>{formatSurveyLabel(s)}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+    </div>
+  );
+};
+
+export default SurveyFilter;
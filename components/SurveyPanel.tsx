@@ -0,0 +1,173 @@
+
+import React, { useState } from 'react';
+import { Survey } from '../types';
+import { createSurvey, formatSurveyLabel } from '../services/surveyService';
+
+interface SurveyPanelProps {
+  surveys: Survey[];
+  activeSurveyId: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: (survey: Survey) => void;
+  onUpdate: (id: string, updates: Partial<Survey>) => void;
+}
+
+const SurveyPanel: React.FC<SurveyPanelProps> = ({ surveys, activeSurveyId, onSelect, onCreate, onUpdate }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [showManage, setShowManage] = useState(false);
+  const [name, setName] = useState('');
+  const [site, setSite] = useState('');
+  const [observers, setObservers] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const openSurveys = surveys.filter(s => s.status === 'active');
+  const activeSurvey = surveys.find(s => s.id === activeSurveyId);
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    const survey = createSurvey({
+      name: name.trim(),
+      site: site.trim(),
+      observers: observers.split(',').map(o => o.trim()).filter(Boolean),
+      notes: notes.trim()
+    });
+    onCreate(survey);
+    onSelect(survey.id);
+    setName('');
+    setSite('');
+    setObservers('');
+    setNotes('');
+    setIsCreating(false);
+  };
+
+  const closeSurvey = (survey: Survey) => {
+    if (!window.confirm(`Close survey "${survey.name}"? New observations will no longer be attached to it.`)) return;
+    onUpdate(survey.id, { status: 'closed', endTime: Date.now() });
+    if (survey.id === activeSurveyId) onSelect(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <i className="fas fa-clipboard-list text-emerald-600"></i>
+          <div className="min-w-0">
+            <p className="text-sm font-bold text-slate-800">Field Survey</p>
+            <p className="text-xs text-slate-500 truncate">
+              {activeSurvey
+                ? `${activeSurvey.site || 'No site'} · ${activeSurvey.observers.join(', ') || 'No observers'}`
+                : 'Observations are not attached to a survey.'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={activeSurveyId || ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 focus:ring-2 focus:ring-emerald-500 outline-none max-w-[14rem]"
+          >
+            <option value="">No Survey</option>
+            {openSurveys.map(s => (
+              <option key={s.id} value={s.id}>{formatSurveyLabel(s)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setIsCreating(!isCreating)}
+            className="px-3 py-2 bg-emerald-50 text-emerald-700 rounded-lg text-sm font-bold hover:bg-emerald-100 transition-colors"
+            title="New survey"
+          >
+            <i className="fas fa-plus"></i>
+          </button>
+          <button
+            onClick={() => setShowManage(!showManage)}
+            className="px-3 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200 transition-colors"
+            title="Manage surveys"
+          >
+            <i className="fas fa-cog"></i>
+          </button>
+        </div>
+      </div>
+
+      {isCreating && (
+        <div className="border-t border-slate-100 p-4 grid gap-3 sm:grid-cols-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Survey name, e.g. Spring Transect A"
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          <input
+            value={site}
+            onChange={(e) => setSite(e.target.value)}
+            placeholder="Site"
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          <input
+            value={observers}
+            onChange={(e) => setObservers(e.target.value)}
+            placeholder="Observers (comma separated)"
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none sm:col-span-2"
+          />
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes"
+            rows={2}
+            className="px-3 py-2 rounded-lg border border-slate-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none sm:col-span-2"
+          />
+          <div className="flex gap-2 sm:col-span-2">
+            <button
+              onClick={handleCreate}
+              disabled={!name.trim()}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+            >
+              Start Survey
+            </button>
+            <button
+              onClick={() => setIsCreating(false)}
+              className="px-4 py-2 bg-slate-100 text-slate-600 rounded-lg text-sm font-bold hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showManage && (
+        <div className="border-t border-slate-100 divide-y divide-slate-100 max-h-64 overflow-y-auto">
+          {surveys.map(survey => (
+            <div key={survey.id} className="px-4 py-2 flex items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className={`font-medium truncate ${survey.status === 'archived' ? 'text-slate-400' : 'text-slate-800'}`}>
+                  {formatSurveyLabel(survey)}
+                </p>
+                <p className="text-[10px] uppercase font-bold tracking-widest text-slate-400">
+                  {survey.status}
+                  {survey.endTime && ` · ended ${new Date(survey.endTime).toLocaleString()}`}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                {survey.status === 'active' && (
+                  <button onClick={() => closeSurvey(survey)} className="text-xs font-bold text-amber-700 hover:underline">Close</button>
+                )}
+                {survey.status === 'closed' && (
+                  <>
+                    <button onClick={() => onUpdate(survey.id, { status: 'active', endTime: undefined })} className="text-xs font-bold text-emerald-700 hover:underline">Reopen</button>
+                    <button onClick={() => onUpdate(survey.id, { status: 'archived' })} className="text-xs font-bold text-slate-500 hover:underline">Archive</button>
+                  </>
+                )}
+                {survey.status === 'archived' && (
+                  <button onClick={() => onUpdate(survey.id, { status: 'closed' })} className="text-xs font-bold text-slate-500 hover:underline">Unarchive</button>
+                )}
+              </div>
+            </div>
+          ))}
+          {surveys.length === 0 && (
+            <p className="px-4 py-4 text-sm text-slate-400 text-center">No surveys yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SurveyPanel;
@@ -1,43 +1,79 @@
 
 import React, { useState } from 'react';
-import { PlantProfile } from '../types';
+import { PENDING_SCIENTIFIC_NAME, PlantAnalysis, PlantProfile } from '../types';
+import { ProfileIndexStatus, getShortlistSize, saveShortlistSize } from '../services/profileIndex';
+import DuplicateProfilesDialog from './DuplicateProfilesDialog';
+import ProfileSplitDialog from './ProfileSplitDialog';
+import ProfileDetail from './ProfileDetail';
+import ImagePreprocessSettings from './ImagePreprocessSettings';
+import { filterImageFiles, preprocessImage } from '../services/imagePreprocessing';
 
 interface TrainingDBProps {
   profiles: PlantProfile[];
+  history: PlantAnalysis[];
+  indexStatus: ProfileIndexStatus;
   onAdd: (profile: PlantProfile) => void;
   onDelete: (id: string) => void;
   onEdit: (id: string, updates: Partial<PlantProfile>) => void;
+  onMerge: (targetId: string, sourceIds: string[]) => void;
 }
 
-const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEdit }) => {
+const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, history, indexStatus, onAdd, onDelete, onEdit, onMerge }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [shortlistSize, setShortlistSize] = useState(getShortlistSize);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [splitProfileId, setSplitProfileId] = useState<string | null>(null);
+  const [detailProfileId, setDetailProfileId] = useState<string | null>(null);
+  const splitTarget = profiles.find(p => p.id === splitProfileId);
+  const detailProfile = profiles.find(p => p.id === detailProfileId);
+
+  const handleSplit = (remaining: PlantProfile, created: PlantProfile) => {
+    onEdit(remaining.id, { images: remaining.images, imageOrgans: remaining.imageOrgans });
+    onAdd(created);
+    setSplitProfileId(null);
+  };
+
+  const handleShortlistChange = (value: number) => {
+    saveShortlistSize(value);
+    setShortlistSize(getShortlistSize());
+  };
 
   const handleFolderUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files || files.length === 0) return;
+    const selected = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (selected.length === 0) return;
+    const files = filterImageFiles(selected);
+    if (files.length === 0) {
+      window.alert("The selected folder contains no images.");
+      return;
+    }
 
     setIsProcessing(true);
-    const images: string[] = [];
     
     // Attempt to get folder name from first file's webkitRelativePath
     const firstPath = files[0].webkitRelativePath;
     const folderName = firstPath ? firstPath.split('/')[0] : "New Plant Species";
 
-    const readers = Array.from(files).map(file => {
-      return new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onload = (ev) => resolve(ev.target?.result as string);
-        // Cast 'file' as any to satisfy the compiler when it incorrectly infers it as 'unknown'
-        reader.readAsDataURL(file as any);
-      });
-    });
+    // One at a time: decoding a whole folder of full-size photos at once can exhaust memory.
+    const results: string[] = [];
+    for (const file of files) {
+      try {
+        results.push((await preprocessImage(file)).dataUrl);
+      } catch {
+        // Undecodable files are left out of the profile.
+      }
+    }
 
-    const results = await Promise.all(readers);
+    if (results.length === 0) {
+      setIsProcessing(false);
+      window.alert("None of the images in the folder could be read.");
+      return;
+    }
     
     onAdd({
       id: Math.random().toString(36).substr(2, 9),
       name: folderName,
-      scientificName: "Pending Scientific Classification",
+      scientificName: PENDING_SCIENTIFIC_NAME,
       isInvasive: false,
       images: results,
       description: `Training dataset with ${results.length} samples.`,
@@ -47,6 +83,30 @@ const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEd
     setIsProcessing(false);
   };
 
+  const splitDialog = splitTarget && (
+    <ProfileSplitDialog
+      profile={splitTarget}
+      onSplit={handleSplit}
+      onClose={() => setSplitProfileId(null)}
+    />
+  );
+
+  if (detailProfile) {
+    return (
+      <>
+        <ProfileDetail
+          profile={detailProfile}
+          history={history}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onSplit={() => setSplitProfileId(detailProfile.id)}
+          onBack={() => setDetailProfileId(null)}
+        />
+        {splitDialog}
+      </>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-end">
@@ -57,6 +117,14 @@ const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEd
           </p>
         </div>
         <div className="flex gap-3">
+          <button
+            onClick={() => setShowDuplicates(true)}
+            disabled={profiles.length < 2}
+            className="px-5 py-3 bg-white text-slate-700 border border-slate-200 rounded-xl font-semibold hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2"
+          >
+            <i className="fas fa-clone"></i>
+            Find Duplicates
+          </button>
           <input 
             type="file" 
             id="folder-upload" 
@@ -73,6 +141,10 @@ const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEd
         </div>
       </div>
 
+      <div className="bg-white px-4 pb-3 rounded-xl shadow-sm border border-slate-200">
+        <ImagePreprocessSettings disabled={isProcessing} />
+      </div>
+
       {isProcessing && (
         <div className="bg-emerald-50 border border-emerald-200 p-4 rounded-xl flex items-center gap-4 text-emerald-700">
           <div className="w-5 h-5 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
@@ -80,16 +152,48 @@ const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEd
         </div>
       )}
 
+      {profiles.length > 0 && (
+        <div className="bg-white px-4 py-3 rounded-xl shadow-sm border border-slate-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+          <div className="flex items-center gap-3 text-slate-600">
+            {indexStatus.isBuilding ? (
+              <div className="w-4 h-4 border-2 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <i className="fas fa-project-diagram text-emerald-600"></i>
+            )}
+            <span>
+              Similarity index: <strong>{indexStatus.indexedImages}</strong> / {indexStatus.totalImages} images
+              {indexStatus.isBuilding ? ' (updating...)' : ' ready'}
+            </span>
+          </div>
+          <label className="flex items-center gap-2 text-slate-500">
+            <span>Send nearest</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={shortlistSize}
+              onChange={(e) => handleShortlistChange(Number(e.target.value) || 0)}
+              className="w-16 px-2 py-1 rounded-lg border border-slate-200 text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+            <span>profiles to cloud models{shortlistSize === 0 && ' (0 = all)'}</span>
+          </label>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {profiles.map((profile) => (
           <div key={profile.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden hover:shadow-md transition-shadow">
             <div className="flex p-4 gap-4">
-              <div className="w-24 h-24 bg-slate-100 rounded-xl overflow-hidden relative flex-shrink-0 border border-slate-200">
-                <img src={profile.images[0]} className="w-full h-full object-cover" alt="" />
+              <button
+                onClick={() => setDetailProfileId(profile.id)}
+                className="w-24 h-24 bg-slate-100 rounded-xl overflow-hidden relative flex-shrink-0 border border-slate-200 hover:ring-2 hover:ring-emerald-500 transition-all flex items-center justify-center text-slate-300"
+                title="Manage images"
+              >
+                {profile.images[0] ? <img src={profile.images[0]} className="w-full h-full object-cover" alt="" /> : <i className="fas fa-image text-2xl"></i>}
                 <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] py-0.5 text-center font-bold">
                   {profile.images.length} IMAGES
                 </div>
-              </div>
+              </button>
               <div className="flex-1 min-w-0">
                 <div className="flex justify-between items-start">
                   <input 
@@ -97,9 +201,19 @@ const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEd
                     value={profile.name}
                     onChange={(e) => onEdit(profile.id, { name: e.target.value })}
                   />
-                  <button onClick={() => onDelete(profile.id)} className="text-slate-300 hover:text-red-500 p-1">
-                    <i className="fas fa-trash-alt text-xs"></i>
-                  </button>
+                  <div className="flex flex-shrink-0">
+                    <button onClick={() => setDetailProfileId(profile.id)} className="text-slate-300 hover:text-slate-600 p-1" title="Open profile">
+                      <i className="fas fa-images text-xs"></i>
+                    </button>
+                    {profile.images.length > 1 && (
+                      <button onClick={() => setSplitProfileId(profile.id)} className="text-slate-300 hover:text-slate-600 p-1" title="Split profile">
+                        <i className="fas fa-cut text-xs"></i>
+                      </button>
+                    )}
+                    <button onClick={() => onDelete(profile.id)} className="text-slate-300 hover:text-red-500 p-1">
+                      <i className="fas fa-trash-alt text-xs"></i>
+                    </button>
+                  </div>
                 </div>
                 <input 
                   className="text-xs text-slate-400 italic border-none p-0 focus:ring-0 w-full bg-transparent"
@@ -131,6 +245,16 @@ const TrainingDB: React.FC<TrainingDBProps> = ({ profiles, onAdd, onDelete, onEd
           </div>
         )}
       </div>
+
+      {showDuplicates && (
+        <DuplicateProfilesDialog
+          profiles={profiles}
+          history={history}
+          onMerge={onMerge}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+      {splitDialog}
     </div>
   );
 };
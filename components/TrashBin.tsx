@@ -0,0 +1,112 @@
+
+import React, { useState } from 'react';
+import { PlantAnalysis } from '../types';
+
+interface TrashBinProps {
+  entries: PlantAnalysis[];
+  onRestore: (entries: PlantAnalysis[]) => void;
+  onPurge: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const TrashBin: React.FC<TrashBinProps> = ({ entries, onRestore, onPurge, onClose }) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selected = entries.filter(item => selectedIds.has(item.id));
+  const targets = selected.length > 0 ? selected : entries;
+
+  const toggleSelect = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const restore = (items: PlantAnalysis[]) => {
+    onRestore(items);
+    setSelectedIds(new Set());
+  };
+
+  const purge = (items: PlantAnalysis[]) => {
+    if (!window.confirm(`Permanently delete ${items.length} observations and their images? This cannot be undone.`)) return;
+    onPurge(items.map(item => item.id));
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Trash</h3>
+            <p className="text-xs text-slate-400">Deleted observations are kept here until purged.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+          {entries.map(item => (
+            <div key={item.id} className={`px-6 py-3 flex items-center gap-4 ${selectedIds.has(item.id) ? 'bg-emerald-50/50' : ''}`}>
+              <input
+                type="checkbox"
+                className="w-4 h-4 rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                checked={selectedIds.has(item.id)}
+                onChange={() => toggleSelect(item.id)}
+              />
+              {item.thumbnailUrl ? (
+                <img src={item.thumbnailUrl} loading="lazy" className="w-10 h-10 rounded object-cover" alt="" />
+              ) : (
+                <div className="w-10 h-10 rounded bg-slate-100 flex items-center justify-center text-slate-300">
+                  <i className="fas fa-image"></i>
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-slate-800 truncate">{item.correctedData?.name || item.name}</p>
+                <p className="text-xs text-slate-400">
+                  Recorded {new Date(item.timestamp).toLocaleDateString()} · Deleted {new Date(item.deletedAt || 0).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => restore([item])} className="w-8 h-8 rounded-lg text-emerald-600 hover:bg-emerald-50" title="Restore">
+                <i className="fas fa-undo"></i>
+              </button>
+              <button onClick={() => purge([item])} className="w-8 h-8 rounded-lg text-red-500 hover:bg-red-50" title="Delete Permanently">
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+          ))}
+          {entries.length === 0 && (
+            <div className="py-16 text-center text-slate-400">
+              <i className="fas fa-trash text-3xl mb-3"></i>
+              <p>The trash is empty.</p>
+            </div>
+          )}
+        </div>
+
+        {entries.length > 0 && (
+          <div className="px-6 py-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+            <button
+              onClick={() => restore(targets)}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-bold hover:bg-emerald-700 flex items-center gap-2"
+            >
+              <i className="fas fa-trash-restore"></i>
+              {selected.length > 0 ? `Restore Selected (${selected.length})` : 'Restore All'}
+            </button>
+            <button
+              onClick={() => purge(targets)}
+              className="px-4 py-2 bg-white text-red-600 border border-red-200 rounded-lg text-sm font-bold hover:bg-red-50 flex items-center gap-2"
+            >
+              <i className="fas fa-dumpster"></i>
+              {selected.length > 0 ? `Purge Selected (${selected.length})` : 'Empty Trash'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashBin;
@@ -0,0 +1,41 @@
+
+import { useEffect, useState } from 'react';
+import { PlantAnalysis } from '../types';
+import { loadObservationImage } from '../services/storageService';
+
+// Reads an observation's full-size photo from storage when a view needs it.
+// Returns '' while loading or when the entry has no photo.
+const useObservationImage = (entry: PlantAnalysis | null | undefined) => {
+  const [imageUrl, setImageUrl] = useState(entry?.imageUrl || '');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!entry) {
+      setImageUrl('');
+      return;
+    }
+    if (entry.imageUrl || !entry.imageId) {
+      setImageUrl(entry.imageUrl);
+      setIsLoading(false);
+      return;
+    }
+    let isCurrent = true;
+    setImageUrl('');
+    setIsLoading(true);
+    loadObservationImage(entry)
+      .catch(err => {
+        console.error('Failed to load observation image', err);
+        return '';
+      })
+      .then(url => {
+        if (!isCurrent) return;
+        setImageUrl(url);
+        setIsLoading(false);
+      });
+    return () => { isCurrent = false; };
+  }, [entry?.imageUrl, entry?.imageId]);
+
+  return { imageUrl, isLoading };
+};
+
+export default useObservationImage;
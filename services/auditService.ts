@@ -0,0 +1,52 @@
+
+import { AuditChange, AuditEvent, PlantAnalysis } from "../types";
+
+const USER_STORAGE_KEY = 'flora_user_name';
+const DEFAULT_USER = 'Local User';
+
+// Bookkeeping fields and bulky model output that would swamp the log; never audited.
+const UNTRACKED_FIELDS: (keyof PlantAnalysis)[] = ['changeLog', 'thumbnailUrl', 'imageUrl', 'imageId', 'imageHash', 'detectedObjects', 'candidates', 'review'];
+
+export const getCurrentUser = (): string => localStorage.getItem(USER_STORAGE_KEY) || DEFAULT_USER;
+
+export const setCurrentUser = (name: string) => {
+  if (name.trim()) {
+    localStorage.setItem(USER_STORAGE_KEY, name.trim());
+  } else {
+    localStorage.removeItem(USER_STORAGE_KEY);
+  }
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+export const createAuditEvent = (action: string, changes: AuditChange[] = []): AuditEvent => ({
+  timestamp: Date.now(),
+  user: getCurrentUser(),
+  action,
+  changes
+});
+
+// Applies updates to an observation and appends a change-log entry describing
+// every tracked field that actually changed.
+export const applyAuditedUpdate = (
+  entry: PlantAnalysis,
+  updates: Partial<PlantAnalysis>,
+  action: string
+): PlantAnalysis => {
+  const changes: AuditChange[] = (Object.keys(updates) as (keyof PlantAnalysis)[])
+    .filter(field => !UNTRACKED_FIELDS.includes(field))
+    .map(field => ({ field, from: formatValue(entry[field]), to: formatValue(updates[field]) }))
+    .filter(change => change.from !== change.to);
+
+  if (changes.length === 0) return { ...entry, ...updates };
+
+  return {
+    ...entry,
+    ...updates,
+    changeLog: [...(entry.changeLog || []), createAuditEvent(action, changes)]
+  };
+};
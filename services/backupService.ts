@@ -0,0 +1,235 @@
+
+import { PlantAnalysis, PlantProfile, Survey } from "../types";
+import { createZip, readZip, ZipEntry } from "./zipArchive";
+import { getProfileImages, toProfileImageFields } from "./profileImages";
+
+const BACKUP_FORMAT = 'floraid-backup';
+const BACKUP_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const SETTINGS_PREFIX = 'flora_';
+// Bookkeeping keys that describe this browser's storage, not user preferences.
+const EXCLUDED_SETTINGS = ['flora_idb_migrated'];
+
+export interface BackupData {
+  profiles: PlantProfile[];
+  history: PlantAnalysis[];
+  surveys: Survey[];
+  settings: Record<string, string>;
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  profiles: (Omit<PlantProfile, 'images'> & { imageFiles: string[] })[];
+  history: (Omit<PlantAnalysis, 'imageUrl' | 'imageId'> & { imageFile: string })[];
+  surveys: Survey[];
+  settings: Record<string, string>;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestoreConflict {
+  kind: 'profile' | 'observation' | 'survey';
+  id: string;
+  label: string;
+}
+
+export interface RestoreReport {
+  added: { profiles: number; history: number; surveys: number };
+  unchanged: number;
+  conflicts: RestoreConflict[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const [header, payload = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const mimeTypeForFile = (fileName: string): string => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  return Object.keys(EXTENSIONS).find(mime => EXTENSIONS[mime] === ext) || 'application/octet-stream';
+};
+
+export const readSettings = (): Record<string, string> => {
+  const settings: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(SETTINGS_PREFIX) && !EXCLUDED_SETTINGS.includes(key)) {
+      settings[key] = localStorage.getItem(key) || '';
+    }
+  }
+  return settings;
+};
+
+export const applySettings = (settings: Record<string, string>) => {
+  Object.entries(settings).forEach(([key, value]) => {
+    if (key.startsWith(SETTINGS_PREFIX) && !EXCLUDED_SETTINGS.includes(key)) {
+      localStorage.setItem(key, value);
+    }
+  });
+};
+
+// Packs the workspace into a zip: manifest.json plus one file per distinct image.
+export const createBackup = (data: Omit<BackupData, 'settings'>): Blob => {
+  const imageFiles = new Map<string, string>();
+  const entries: ZipEntry[] = [];
+
+  const addImage = (dataUrl: string): string => {
+    if (!dataUrl) return '';
+    const existing = imageFiles.get(dataUrl);
+    if (existing) return existing;
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const fileName = `images/${imageFiles.size + 1}.${EXTENSIONS[mimeType] || 'bin'}`;
+    imageFiles.set(dataUrl, fileName);
+    entries.push({ name: fileName, data: bytes });
+    return fileName;
+  };
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    profiles: data.profiles.map(({ images, ...rest }) => ({ ...rest, imageFiles: images.map(addImage) })),
+    history: data.history.map(({ imageUrl, imageId, ...rest }) => ({ ...rest, imageFile: addImage(imageUrl) })),
+    surveys: data.surveys,
+    settings: readSettings()
+  };
+
+  entries.unshift({ name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const readBackup = async (file: Blob): Promise<BackupData> => {
+  const files = await readZip(file);
+  const manifestBytes = files.get(MANIFEST_FILE);
+  if (!manifestBytes) throw new Error("Backup is missing manifest.json.");
+
+  const manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT) throw new Error("This file is not a FloraID Pro backup.");
+  if (manifest.version > BACKUP_VERSION) throw new Error("This backup was created by a newer version of FloraID Pro.");
+
+  const urlCache = new Map<string, string>();
+  const resolveImage = (fileName: string): string => {
+    if (!fileName) return '';
+    const cached = urlCache.get(fileName);
+    if (cached) return cached;
+    const bytes = files.get(fileName);
+    if (!bytes) throw new Error(`Backup is missing image ${fileName}.`);
+    const url = bytesToDataUrl(bytes, mimeTypeForFile(fileName));
+    urlCache.set(fileName, url);
+    return url;
+  };
+
+  return {
+    profiles: manifest.profiles.map(({ imageFiles, ...rest }) => ({ ...rest, images: imageFiles.map(resolveImage) })),
+    history: manifest.history.map(({ imageFile, ...rest }) => ({ ...rest, imageUrl: resolveImage(imageFile) })),
+    surveys: manifest.surveys || [],
+    settings: manifest.settings || {}
+  };
+};
+
+// Regenerated from the image after a restore, so a copy without them is not a conflict.
+// Stored observations carry their photo as an imageId and only restored ones inline it.
+const DERIVED_FIELDS = ['thumbnailUrl', 'imageHash', 'imageUrl', 'imageId'];
+
+// Structural equality that ignores key order, which differs between records loaded
+// from storage, restored from a backup and created during the session. A missing
+// key equals an undefined one.
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((value, i) => isDeepEqual(value, b[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return Array.from(keys).every(key => isDeepEqual(left[key], right[key]));
+};
+
+const isSameRecord = (a: object, b: object): boolean => {
+  const strip = (record: object) => {
+    const copy: Record<string, unknown> = { ...record };
+    DERIVED_FIELDS.forEach(field => delete copy[field]);
+    return copy;
+  };
+  return isDeepEqual(strip(a), strip(b));
+};
+
+// Profiles saved before organ tags existed have no imageOrgans; compare them as untagged.
+const normalizeProfile = (profile: PlantProfile): PlantProfile => ({ ...profile, ...toProfileImageFields(getProfileImages(profile)) });
+
+const mergeById = <T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  kind: RestoreConflict['kind'],
+  label: (item: T) => string,
+  report: RestoreReport,
+  normalize: (item: T) => T = item => item
+): { merged: T[]; added: number } => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  const additions: T[] = [];
+
+  incoming.forEach(item => {
+    const existing = byId.get(item.id);
+    if (!existing) {
+      additions.push(item);
+      byId.set(item.id, item);
+    } else if (isSameRecord(normalize(existing), normalize(item))) {
+      report.unchanged++;
+    } else {
+      // The local copy wins; the user can restore in replace mode to take the backup's.
+      report.conflicts.push({ kind, id: item.id, label: label(item) });
+    }
+  });
+
+  return { merged: [...additions, ...current], added: additions.length };
+};
+
+export const restoreBackup = (
+  current: Omit<BackupData, 'settings'>,
+  backup: BackupData,
+  mode: RestoreMode
+): { data: Omit<BackupData, 'settings'>; report: RestoreReport } => {
+  const report: RestoreReport = { added: { profiles: 0, history: 0, surveys: 0 }, unchanged: 0, conflicts: [] };
+
+  if (mode === 'replace') {
+    report.added = { profiles: backup.profiles.length, history: backup.history.length, surveys: backup.surveys.length };
+    return { data: { profiles: backup.profiles, history: backup.history, surveys: backup.surveys }, report };
+  }
+
+  const profiles = mergeById(current.profiles, backup.profiles, 'profile', p => p.name, report, normalizeProfile);
+  const history = mergeById(current.history, backup.history, 'observation', h => `${h.name} (${new Date(h.timestamp).toLocaleString()})`, report);
+  const surveys = mergeById(current.surveys, backup.surveys, 'survey', s => s.name, report);
+  report.added = { profiles: profiles.added, history: history.added, surveys: surveys.added };
+
+  return {
+    data: {
+      profiles: profiles.merged.sort((a, b) => b.dateCreated - a.dateCreated),
+      history: history.merged.sort((a, b) => b.timestamp - a.timestamp),
+      surveys: surveys.merged.sort((a, b) => b.startTime - a.startTime)
+    },
+    report
+  };
+};
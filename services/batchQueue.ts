@@ -0,0 +1,159 @@
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem<T> {
+  id: string;
+  label: string;
+  payload: T;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+}
+
+export interface BatchQueueSnapshot<T> {
+  items: BatchItem<T>[];
+  isPaused: boolean;
+  isFinished: boolean;
+  cooldownUntil: number | null;
+}
+
+export interface BatchQueueOptions<T> {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  worker: (payload: T) => Promise<void>;
+  onChange: (snapshot: BatchQueueSnapshot<T>) => void;
+  isRetryable?: (err: any) => boolean;
+}
+
+export interface BatchQueue {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retryFailed: () => void;
+}
+
+// Quota and throttling responses from the identification backend.
+export const isRateLimitError = (err: any): boolean => {
+  const message = String(err?.message || err || '').toLowerCase();
+  return err?.status === 429
+    || message.includes('429')
+    || message.includes('resource_exhausted')
+    || message.includes('rate limit')
+    || message.includes('quota');
+};
+
+// Runs a fixed list of jobs with bounded concurrency. Retryable failures put the
+// whole queue into an exponentially growing cooldown rather than hammering the API.
+export const createBatchQueue = <T>(
+  entries: { label: string; payload: T }[],
+  options: BatchQueueOptions<T>
+): BatchQueue => {
+  const isRetryable = options.isRetryable || isRateLimitError;
+  let items: BatchItem<T>[] = entries.map((entry, index) => ({
+    id: `${index}`,
+    label: entry.label,
+    payload: entry.payload,
+    status: 'pending',
+    attempts: 0
+  }));
+  let isPaused = false;
+  // Set by cancel(): jobs still running may finish, but are never retried.
+  let isCancelled = false;
+  let active = 0;
+  let cooldownUntil = 0;
+  let cooldownTimer: number | null = null;
+
+  const emit = () => {
+    options.onChange({
+      items,
+      isPaused,
+      isFinished: !items.some(i => i.status === 'pending' || i.status === 'running'),
+      cooldownUntil: cooldownUntil > Date.now() ? cooldownUntil : null
+    });
+  };
+
+  const update = (id: string, patch: Partial<BatchItem<T>>) => {
+    items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+  };
+
+  const run = async (item: BatchItem<T>) => {
+    const attempts = item.attempts + 1;
+    active++;
+    update(item.id, { status: 'running', attempts, error: undefined });
+
+    try {
+      await options.worker(item.payload);
+      update(item.id, { status: 'done' });
+    } catch (err: any) {
+      const message = err?.message || String(err);
+      if (isCancelled && isRetryable(err)) {
+        update(item.id, { status: 'cancelled', error: message });
+      } else if (isRetryable(err) && attempts <= options.maxRetries) {
+        const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempts - 1));
+        cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+        update(item.id, { status: 'pending', error: message });
+      } else {
+        update(item.id, { status: 'failed', error: message });
+      }
+    } finally {
+      active--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    if (cooldownTimer) {
+      clearTimeout(cooldownTimer);
+      cooldownTimer = null;
+    }
+
+    if (!isPaused) {
+      const wait = cooldownUntil - Date.now();
+      if (wait > 0) {
+        cooldownTimer = window.setTimeout(pump, wait);
+      } else {
+        while (active < options.concurrency) {
+          const next = items.find(i => i.status === 'pending');
+          if (!next) break;
+          run(next);
+        }
+      }
+    }
+
+    emit();
+  };
+
+  return {
+    start: pump,
+    pause: () => {
+      isPaused = true;
+      pump();
+    },
+    resume: () => {
+      isPaused = false;
+      pump();
+    },
+    // Jobs already running are allowed to finish; everything still waiting is dropped.
+    cancel: () => {
+      isCancelled = true;
+      cooldownUntil = 0;
+      if (cooldownTimer) {
+        clearTimeout(cooldownTimer);
+        cooldownTimer = null;
+      }
+      items = items.map(item => item.status === 'pending' ? { ...item, status: 'cancelled' } : item);
+      pump();
+    },
+    retryFailed: () => {
+      isCancelled = false;
+      items = items.map(item => item.status === 'failed' || item.status === 'cancelled'
+        ? { ...item, status: 'pending', attempts: 0 }
+        : item);
+      isPaused = false;
+      pump();
+    }
+  };
+};
@@ -0,0 +1,252 @@
+
+import { DetectedObject, MatchCandidate, PlantAnalysis, ReviewDecision } from "../types";
+import { validateCandidates, validateDetectedObjects } from "./resultValidation";
+
+export type CsvColumnKey =
+  | 'id' | 'name' | 'scientificName' | 'isInvasive' | 'confidence' | 'analysisTime'
+  | 'lat' | 'lng' | 'timestamp' | 'matchedProfileId' | 'isFavorite' | 'isIncorrect'
+  | 'correctedName' | 'correctedScientificName' | 'correctedIsInvasive'
+  | 'detectedObjects' | 'candidates' | 'surveyId' | 'reviewDecision' | 'reviewedBy' | 'reviewedAt' | 'image';
+
+interface CsvColumn {
+  key: CsvColumnKey;
+  header: string;
+  write: (item: PlantAnalysis) => string;
+}
+
+const REVIEW_DECISIONS: ReviewDecision[] = ['confirmed', 'rejected', 'reassigned'];
+
+const formatBoolean = (value: boolean | undefined) => value ? 'Yes' : 'No';
+
+const parseBoolean = (value: string) => ['yes', 'true', '1', 'y'].includes(value.trim().toLowerCase());
+
+const parseNumber = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.toUpperCase() === 'N/A') return undefined;
+  const parsed = Number(trimmed.replace(/%$/, ''));
+  if (Number.isNaN(parsed)) return undefined;
+  // Older exports wrote confidence as a formatted percentage.
+  return trimmed.endsWith('%') ? parsed / 100 : parsed;
+};
+
+// Headers match the original export so files written before the round-trip
+// format existed can still be imported.
+export const CSV_COLUMNS: CsvColumn[] = [
+  { key: 'id', header: 'ID', write: item => item.id },
+  { key: 'name', header: 'Name', write: item => item.name },
+  { key: 'scientificName', header: 'Scientific Name', write: item => item.scientificName },
+  { key: 'isInvasive', header: 'Invasive', write: item => formatBoolean(item.isInvasive) },
+  { key: 'confidence', header: 'Confidence', write: item => String(item.confidence) },
+  { key: 'analysisTime', header: 'Analysis Time (s)', write: item => String(item.analysisTime) },
+  { key: 'lat', header: 'Lat', write: item => item.coordinates ? String(item.coordinates.lat) : '' },
+  { key: 'lng', header: 'Lng', write: item => item.coordinates ? String(item.coordinates.lng) : '' },
+  { key: 'timestamp', header: 'Timestamp', write: item => new Date(item.timestamp).toISOString() },
+  { key: 'matchedProfileId', header: 'Matched Profile ID', write: item => item.matchedProfileId || '' },
+  { key: 'isFavorite', header: 'Favorite', write: item => formatBoolean(item.isFavorite) },
+  { key: 'isIncorrect', header: 'Incorrect', write: item => formatBoolean(item.isIncorrect) },
+  { key: 'correctedName', header: 'Corrected Name', write: item => item.correctedData?.name || '' },
+  { key: 'correctedScientificName', header: 'Corrected Scientific Name', write: item => item.correctedData?.scientificName || '' },
+  { key: 'correctedIsInvasive', header: 'Corrected Invasive', write: item => item.correctedData ? formatBoolean(item.correctedData.isInvasive) : '' },
+  { key: 'detectedObjects', header: 'Detected Objects', write: item => item.detectedObjects ? JSON.stringify(item.detectedObjects) : '' },
+  { key: 'candidates', header: 'Candidates', write: item => item.candidates ? JSON.stringify(item.candidates) : '' },
+  { key: 'surveyId', header: 'Survey ID', write: item => item.surveyId || '' },
+  { key: 'reviewDecision', header: 'Review', write: item => item.review?.decision || '' },
+  { key: 'reviewedBy', header: 'Reviewed By', write: item => item.review?.reviewer || '' },
+  { key: 'reviewedAt', header: 'Reviewed At', write: item => item.review ? new Date(item.review.reviewedAt).toISOString() : '' },
+  { key: 'image', header: 'Image', write: item => item.imageUrl }
+];
+
+// The embedded image column makes files very large, so it is opt-in.
+export const DEFAULT_CSV_COLUMNS: CsvColumnKey[] = CSV_COLUMNS.map(c => c.key).filter(key => key !== 'image');
+
+const escapeField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// RFC 4180: CRLF record separators, fields quoted when they contain a comma,
+// quote or line break, and embedded quotes doubled.
+export const writeCSV = (rows: string[][]): string => {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
+
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value !== ''));
+};
+
+export const historyToCSV = (entries: PlantAnalysis[], columnKeys: CsvColumnKey[] = DEFAULT_CSV_COLUMNS): string => {
+  const columns = CSV_COLUMNS.filter(c => columnKeys.includes(c.key));
+  return writeCSV([
+    columns.map(c => c.header),
+    ...entries.map(item => columns.map(c => c.write(item)))
+  ]);
+};
+
+export interface CsvImportResult {
+  records: PlantAnalysis[];
+  errors: string[];
+}
+
+// Rebuilds observations from a CSV. The Image column may hold a data URL or a
+// file name, resolved against the images selected alongside the CSV.
+// JSON columns get the same shape checks as a provider response: entries that
+// don't fit are dropped, and a value that isn't a list is skipped entirely.
+const readJsonList = <T>(
+  raw: string,
+  label: string,
+  validate: (value: unknown) => T[] | undefined,
+  report: (message: string) => void
+): T[] | undefined => {
+  if (!raw) return undefined;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    report(`${label} are not valid JSON and were skipped.`);
+    return undefined;
+  }
+  try {
+    const valid = validate(parsed);
+    const dropped = Array.isArray(parsed) && valid ? parsed.length - valid.length : 0;
+    if (dropped > 0) report(`${dropped} malformed ${label} were skipped.`);
+    return valid;
+  } catch {
+    report(`${label} must be a JSON list and were skipped.`);
+    return undefined;
+  }
+};
+
+export const historyFromCSV = (text: string, imagesByName: Map<string, string> = new Map()): CsvImportResult => {
+  const [headerRow, ...dataRows] = parseCSV(text);
+  const errors: string[] = [];
+  if (!headerRow) return { records: [], errors: ['The file is empty.'] };
+
+  const indexByKey = new Map<CsvColumnKey, number>();
+  headerRow.forEach((header, index) => {
+    const normalized = header.trim().toLowerCase();
+    const column = CSV_COLUMNS.find(c => c.header.toLowerCase() === normalized || c.key.toLowerCase() === normalized);
+    if (column) indexByKey.set(column.key, index);
+  });
+
+  if (!indexByKey.has('name')) {
+    return { records: [], errors: ['Missing required "Name" column.'] };
+  }
+
+  const records: PlantAnalysis[] = [];
+  dataRows.forEach((row, rowIndex) => {
+    const line = rowIndex + 2;
+    const get = (key: CsvColumnKey) => {
+      const index = indexByKey.get(key);
+      return index === undefined ? '' : (row[index] ?? '');
+    };
+
+    const name = get('name').trim();
+    if (!name) {
+      errors.push(`Row ${line}: missing name.`);
+      return;
+    }
+
+    const confidence = parseNumber(get('confidence'));
+    if (confidence === undefined || confidence < 0 || confidence > 1) {
+      errors.push(`Row ${line}: confidence must be between 0 and 1.`);
+      return;
+    }
+
+    const rawTimestamp = get('timestamp').trim();
+    const timestamp = rawTimestamp ? Date.parse(rawTimestamp) : Date.now();
+    if (Number.isNaN(timestamp)) {
+      errors.push(`Row ${line}: unreadable timestamp "${rawTimestamp}".`);
+      return;
+    }
+
+    const lat = parseNumber(get('lat'));
+    const lng = parseNumber(get('lng'));
+
+    const report = (message: string) => errors.push(`Row ${line}: ${message}`);
+    const detectedObjects: DetectedObject[] | undefined = readJsonList(get('detectedObjects').trim(), 'detected objects', validateDetectedObjects, report);
+    const candidates: MatchCandidate[] | undefined = readJsonList(get('candidates').trim(), 'candidates', validateCandidates, report);
+
+    const rawImage = get('image').trim();
+    let imageUrl = '';
+    if (rawImage.startsWith('data:')) {
+      imageUrl = rawImage;
+    } else if (rawImage) {
+      imageUrl = imagesByName.get(rawImage) || '';
+      if (!imageUrl) errors.push(`Row ${line}: image "${rawImage}" was not among the selected files.`);
+    }
+
+    const correctedName = get('correctedName').trim();
+    const reviewDecision = get('reviewDecision').trim() as ReviewDecision;
+    const reviewedAt = Date.parse(get('reviewedAt').trim());
+    const review = REVIEW_DECISIONS.includes(reviewDecision) ? {
+      decision: reviewDecision,
+      reviewer: get('reviewedBy').trim() || 'Unknown',
+      reviewedAt: Number.isNaN(reviewedAt) ? timestamp : reviewedAt
+    } : undefined;
+
+    records.push({
+      id: get('id').trim() || Math.random().toString(36).substr(2, 9),
+      name,
+      scientificName: get('scientificName').trim(),
+      isInvasive: parseBoolean(get('isInvasive')),
+      confidence,
+      timestamp,
+      analysisTime: parseNumber(get('analysisTime')) ?? 0,
+      coordinates: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+      imageUrl,
+      matchedProfileId: get('matchedProfileId').trim() || undefined,
+      isFavorite: parseBoolean(get('isFavorite')),
+      isIncorrect: parseBoolean(get('isIncorrect')),
+      correctedData: correctedName ? {
+        name: correctedName,
+        scientificName: get('correctedScientificName').trim(),
+        isInvasive: parseBoolean(get('correctedIsInvasive'))
+      } : undefined,
+      detectedObjects,
+      candidates,
+      surveyId: get('surveyId').trim() || undefined,
+      review
+    });
+  });
+
+  return { records, errors };
+};
@@ -0,0 +1,155 @@
+
+import { EvaluationRun, EvaluationSample, PlantProfile, UNKNOWN_CLASS } from "../types";
+import { findMatchingProfile } from "./profileService";
+import { isImageFile } from "./imagePreprocessing";
+import { computeImageDigest } from "./imageUtils";
+
+const LATENCY_BUCKETS_MS = [250, 500, 1000, 2000, 4000, 8000];
+
+export interface LabeledFile {
+  file: File;
+  label: string;
+}
+
+export interface ClassMetrics {
+  classId: string;
+  name: string;
+  support: number; // samples whose expected class is this one
+  predicted: number; // samples predicted as this class
+  truePositives: number;
+  precision: number | null; // null when the class was never predicted
+  recall: number | null; // null when the class has no samples
+}
+
+export interface LatencyStats {
+  mean: number;
+  min: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  histogram: { label: string; count: number }[];
+}
+
+export interface EvaluationMetrics {
+  evaluated: number;
+  failed: number;
+  inTrainingSet: number; // samples skipped because a profile already holds the same image
+  accuracy: number | null;
+  macroPrecision: number | null;
+  macroRecall: number | null;
+  unknownRejectionRate: number | null; // out-of-database samples correctly answered unknown
+  falseRejectionRate: number | null; // in-database samples wrongly answered unknown
+  classes: ClassMetrics[];
+  confusion: Record<string, Record<string, number>>; // expected -> predicted -> count
+  latency: LatencyStats | null;
+}
+
+// Labels come from the folder an image sits in: "set/Japanese Knotweed/01.jpg" is
+// labeled "Japanese Knotweed". Non-image files and top-level files are skipped.
+export const labelFilesByFolder = (files: File[]): LabeledFile[] => {
+  return files.flatMap(file => {
+    const parts = (file.webkitRelativePath || file.name).split('/');
+    if (parts.length < 2 || !isImageFile(file)) return [];
+    return [{ file, label: parts[parts.length - 2] }];
+  });
+};
+
+// Resolves a folder label to a profile by common or scientific name. Labels with
+// no profile are treated as out-of-database specimens the model should reject.
+export const resolveLabel = (label: string, profiles: PlantProfile[]): string => {
+  const profile = findMatchingProfile(profiles, label, label);
+  return profile ? profile.id : UNKNOWN_CLASS;
+};
+
+// Digests of every training image, in the form preprocessImage reports for uploads.
+// Only byte-identical copies are caught, not re-encoded or cropped ones.
+export const getTrainingImageDigests = async (profiles: PlantProfile[]): Promise<Set<string>> => {
+  const digests = new Set<string>();
+  for (const image of new Set(profiles.flatMap(p => p.images))) {
+    digests.add(await computeImageDigest(image));
+  }
+  return digests;
+};
+
+const ratio = (numerator: number, denominator: number): number | null => denominator > 0 ? numerator / denominator : null;
+
+const percentile = (sorted: number[], p: number): number => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1));
+  return sorted[index];
+};
+
+export const computeLatencyStats = (latencies: number[]): LatencyStats | null => {
+  if (latencies.length === 0) return null;
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const histogram = [...LATENCY_BUCKETS_MS, Infinity].map((limit, i) => {
+    const lower = i === 0 ? 0 : LATENCY_BUCKETS_MS[i - 1];
+    return {
+      label: limit === Infinity ? `>${lower / 1000}s` : `≤${limit / 1000}s`,
+      count: sorted.filter(ms => (i === 0 || ms > lower) && ms <= limit).length
+    };
+  });
+  return {
+    mean: sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    histogram
+  };
+};
+
+export const computeEvaluationMetrics = (run: Pick<EvaluationRun, 'samples' | 'classNames'>): EvaluationMetrics => {
+  const scored = run.samples.filter((s): s is EvaluationSample & { predictedClass: string } => !!s.predictedClass);
+  const failed = run.samples.filter(s => s.error).length;
+
+  const confusion: Record<string, Record<string, number>> = {};
+  scored.forEach(s => {
+    confusion[s.expectedClass] = confusion[s.expectedClass] || {};
+    confusion[s.expectedClass][s.predictedClass] = (confusion[s.expectedClass][s.predictedClass] || 0) + 1;
+  });
+
+  const classIds = Array.from(new Set([...scored.map(s => s.expectedClass), ...scored.map(s => s.predictedClass)]))
+    .sort((a, b) => (a === UNKNOWN_CLASS ? 1 : 0) - (b === UNKNOWN_CLASS ? 1 : 0) || (run.classNames[a] || a).localeCompare(run.classNames[b] || b));
+
+  const classes: ClassMetrics[] = classIds.map(classId => {
+    const support = scored.filter(s => s.expectedClass === classId).length;
+    const predicted = scored.filter(s => s.predictedClass === classId).length;
+    const truePositives = scored.filter(s => s.expectedClass === classId && s.predictedClass === classId).length;
+    return {
+      classId,
+      name: run.classNames[classId] || classId,
+      support,
+      predicted,
+      truePositives,
+      precision: ratio(truePositives, predicted),
+      recall: ratio(truePositives, support)
+    };
+  });
+
+  const mean = (values: (number | null)[]) => {
+    const defined = values.filter((v): v is number => v !== null);
+    return defined.length > 0 ? defined.reduce((sum, v) => sum + v, 0) / defined.length : null;
+  };
+
+  const outOfDatabase = scored.filter(s => s.expectedClass === UNKNOWN_CLASS);
+  const inDatabase = scored.filter(s => s.expectedClass !== UNKNOWN_CLASS);
+
+  return {
+    evaluated: scored.length,
+    failed,
+    inTrainingSet: run.samples.filter(s => s.inTrainingSet).length,
+    accuracy: ratio(scored.filter(s => s.expectedClass === s.predictedClass).length, scored.length),
+    // Macro averages cover profile classes only; "unknown" is reported separately.
+    macroPrecision: mean(classes.filter(c => c.classId !== UNKNOWN_CLASS).map(c => c.precision)),
+    macroRecall: mean(classes.filter(c => c.classId !== UNKNOWN_CLASS).map(c => c.recall)),
+    unknownRejectionRate: ratio(outOfDatabase.filter(s => s.predictedClass === UNKNOWN_CLASS).length, outOfDatabase.length),
+    falseRejectionRate: ratio(inDatabase.filter(s => s.predictedClass === UNKNOWN_CLASS).length, inDatabase.length),
+    classes,
+    confusion,
+    latency: computeLatencyStats(scored.map(s => s.latencyMs).filter((ms): ms is number => ms !== undefined))
+  };
+};
+
+export const formatRate = (value: number | null): string => value === null ? '—' : `${(value * 100).toFixed(1)}%`;
@@ -0,0 +1,98 @@
+
+import { PlantAnalysis, Survey } from "../types";
+
+export const downloadFile = (content: string | Blob, mimeType: string, fileName: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking straight after click() cancels the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+type GeolocatedAnalysis = PlantAnalysis & { coordinates: { lat: number; lng: number } };
+
+export const getGeolocated = (entries: PlantAnalysis[]): GeolocatedAnalysis[] => {
+  return entries.filter((item): item is GeolocatedAnalysis => !!item.coordinates);
+};
+
+// Flat attribute table shared by the GIS formats. Corrected values are reported
+// next to the original model output, and `species` holds whichever one applies.
+const toFeatureProperties = (item: PlantAnalysis, surveyNames: Map<string, string>) => ({
+  id: item.id,
+  species: item.correctedData?.name ?? item.name,
+  scientificName: item.correctedData?.scientificName ?? item.scientificName,
+  isInvasive: item.correctedData?.isInvasive ?? item.isInvasive,
+  confidence: item.confidence,
+  timestamp: new Date(item.timestamp).toISOString(),
+  predictedName: item.name,
+  predictedScientificName: item.scientificName,
+  predictedIsInvasive: item.isInvasive,
+  isCorrected: !!item.correctedData,
+  isIncorrect: !!item.isIncorrect,
+  isFavorite: !!item.isFavorite,
+  reviewDecision: item.review?.decision ?? null,
+  reviewedBy: item.review?.reviewer ?? null,
+  matchedProfileId: item.matchedProfileId ?? null,
+  surveyId: item.surveyId ?? null,
+  surveyName: item.surveyId ? surveyNames.get(item.surveyId) ?? null : null
+});
+
+export const toGeoJSON = (entries: PlantAnalysis[], surveys: Survey[] = []): string => {
+  const surveyNames = new Map(surveys.map(s => [s.id, s.name]));
+  const collection = {
+    type: 'FeatureCollection',
+    features: getGeolocated(entries).map(item => ({
+      type: 'Feature',
+      id: item.id,
+      geometry: {
+        type: 'Point',
+        coordinates: [item.coordinates.lng, item.coordinates.lat]
+      },
+      properties: toFeatureProperties(item, surveyNames)
+    }))
+  };
+  return JSON.stringify(collection, null, 2);
+};
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+export const toKML = (entries: PlantAnalysis[], surveys: Survey[] = []): string => {
+  const surveyNames = new Map(surveys.map(s => [s.id, s.name]));
+  const placemarks = getGeolocated(entries).map(item => {
+    const props = toFeatureProperties(item, surveyNames);
+    const data = Object.entries(props)
+      .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(value === null ? '' : String(value))}</value></Data>`)
+      .join('\n');
+    return `    <Placemark id="${escapeXml(item.id)}">
+      <name>${escapeXml(props.species)}</name>
+      <description>${escapeXml(`${props.scientificName} · ${(props.confidence * 100).toFixed(1)}% · ${props.timestamp}`)}</description>
+      <styleUrl>#${props.isInvasive ? 'invasive' : 'safe'}</styleUrl>
+      <TimeStamp><when>${props.timestamp}</when></TimeStamp>
+      <ExtendedData>
+${data}
+      </ExtendedData>
+      <Point><coordinates>${item.coordinates.lng},${item.coordinates.lat},0</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>FloraID Pro Observations</name>
+    <Style id="invasive"><IconStyle><color>ff4444ef</color></IconStyle></Style>
+    <Style id="safe"><IconStyle><color>ff81b910</color></IconStyle></Style>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+};
@@ -1,6 +1,9 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, PlantProfile } from "../types";
+import { AnalysisResult, IdentificationProvider, PlantProfile } from "../types";
+import { getReferenceBudget, prepareReferenceImages } from "./referenceImages";
+import { IdentificationError, createEmptyDatabaseError } from "./identificationErrors";
+import { getDataUrlMimeType } from "./imageUtils";
 
 const DETECTION_SCHEMA = {
   type: Type.ARRAY,
@@ -24,6 +27,19 @@ const DETECTION_SCHEMA = {
   }
 };
 
+const CANDIDATE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      profileId: { type: Type.STRING, description: 'ID of a profile from the local database.' },
+      confidence: { type: Type.NUMBER, description: 'Confidence from 0 to 1 that the specimen is this profile.' },
+      rationale: { type: Type.STRING, description: 'Short reason this profile does or does not fit.' }
+    },
+    required: ['profileId', 'confidence', 'rationale']
+  }
+};
+
 const PLANT_SCHEMA = {
   type: Type.OBJECT,
   properties: {
@@ -54,12 +70,16 @@ const PLANT_SCHEMA = {
     detectedObjects: {
       ...DETECTION_SCHEMA,
       description: 'Optional: List of detected objects in the image with bounding boxes.'
+    },
+    candidates: {
+      ...CANDIDATE_SCHEMA,
+      description: 'Up to 5 most plausible database profiles, best first, each with its own confidence and rationale.'
     }
   },
   required: ['name', 'scientificName', 'isInvasive', 'confidence', 'description', 'matchedProfileId']
 };
 
-export const analyzePlantWithContext = async (
+const analyzeWithGemini = async (
   base64Image: string, 
   profiles: PlantProfile[]
 ): Promise<AnalysisResult> => {
@@ -67,25 +87,34 @@ export const analyzePlantWithContext = async (
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
   if (profiles.length === 0) {
-    throw new Error("Training database is empty. Please add plant profiles first.");
+    throw createEmptyDatabaseError();
   }
 
+  // Representative training photos, downscaled to fit the configured budget
+  const references = await prepareReferenceImages(profiles, getReferenceBudget());
+  const referenceParts = references.flatMap(ref => [
+    { text: `Reference image${ref.organ ? ` (${ref.organ})` : ''} for profile id "${ref.profileId}":` },
+    { inlineData: { mimeType: getDataUrlMimeType(ref.dataUrl), data: ref.dataUrl.split(',')[1] } }
+  ]);
+
   // Create a text-based manifest of profiles for the prompt
   const profileManifest = profiles.map(p => ({
     id: p.id,
     name: p.name,
     scientificName: p.scientificName,
     isInvasive: p.isInvasive,
-    imageCount: p.images.length
+    imageCount: p.images.length,
+    referenceImagesAttached: references.filter(ref => ref.profileId === p.id).length
   }));
 
   const result = await ai.models.generateContent({
     model: 'gemini-flash-lite-latest',
     contents: {
       parts: [
-        { inlineData: { mimeType: 'image/jpeg', data: base64Image.split(',')[1] || base64Image } },
+        { inlineData: { mimeType: getDataUrlMimeType(base64Image), data: base64Image.split(',')[1] || base64Image } },
         { text: `
-          SYSTEM TASK: Identify the plant in the provided image by matching it ONLY to the local database profiles listed below. 
+          SYSTEM TASK: Identify the plant in the first image (the query specimen) by matching it ONLY to the local database profiles listed below. 
+          Labeled reference images from the training database follow this text. Compare the specimen's visual features (leaf shape, venation, flowers, bark, habit) against them; profiles with no attached references can only be matched by name and description.
           
           ALSO: Perform object detection. Identify various objects in the image (plants, leaves, flowers, pots, tools, etc.) and provide their bounding boxes.
           
@@ -96,12 +125,14 @@ export const analyzePlantWithContext = async (
           4. For "No Database Match Found" results, the "confidence" field must represent how sure you are that this specimen IS NOT any of the plants in the provided list.
           5. If you are 100% certain that what you are looking at is NOT in the training database, set confidence to 1.0 and state your reasoning in the description.
           6. Bounding boxes should be in normalized coordinates [0, 1000].
+          7. In "candidates", rank up to 5 profiles that could plausibly be this specimen, including look-alikes, even when the best match is uncertain. Only use IDs from the list below.
 
           LOCAL PROFILES DATABASE:
           ${JSON.stringify(profileManifest, null, 2)}
 
           Analyze the specimen carefully. Determine if it is a match or a novel species relative to this specific dataset.
-        ` }
+        ` },
+        ...referenceParts
       ]
     },
     config: {
@@ -111,6 +142,14 @@ export const analyzePlantWithContext = async (
   });
 
   const text = result.text;
-  if (!text) throw new Error("Identification failed.");
+  if (!text) throw new IdentificationError('malformed', "The model returned an empty response.");
   return JSON.parse(text);
 };
+
+export const geminiProvider: IdentificationProvider = {
+  id: 'gemini',
+  label: 'Gemini Cloud',
+  description: 'Matches specimens with gemini-flash-lite-latest. Requires network access and API quota.',
+  requiresNetwork: true,
+  analyze: analyzeWithGemini
+};
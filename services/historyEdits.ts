@@ -0,0 +1,165 @@
+
+import { PlantAnalysis, PlantProfile } from "../types";
+import { ProfileImage, getProfileImages, toProfileImageFields } from "./profileImages";
+
+const MAX_UNDO_DEPTH = 50;
+
+// The fields of one record an edit changed, as they were before and after it.
+// A null side means the record did not exist, e.g. a profile the edit created.
+export interface FieldChange<T> {
+  id: string;
+  before: Partial<T> | null;
+  after: Partial<T> | null;
+}
+
+// Images an edit added to or removed from a profile that existed before and after
+// it. Kept as a delta so images added to the profile later survive an undo.
+export interface ImageDelta {
+  added: ProfileImage[];
+  removed: ProfileImage[];
+}
+
+export interface ProfileChange extends FieldChange<PlantProfile> {
+  images?: ImageDelta;
+}
+
+// One undoable change to the identification log, and to any training profiles it
+// created, merged or extended. Only the changed fields are stored, so undoing an
+// older edit keeps later, unrelated changes to the same records.
+export interface HistoryEdit {
+  label: string;
+  timestamp: number;
+  entries: FieldChange<PlantAnalysis>[];
+  profiles: ProfileChange[];
+}
+
+export interface UndoStack {
+  undo: HistoryEdit[];
+  redo: HistoryEdit[];
+}
+
+export const EMPTY_UNDO_STACK: UndoStack = { undo: [], redo: [] };
+
+export const isTrashed = (entry: PlantAnalysis): boolean => entry.deletedAt !== undefined;
+
+export const getActiveHistory = (history: PlantAnalysis[]): PlantAnalysis[] => history.filter(item => !isTrashed(item));
+
+export const getTrashedHistory = (history: PlantAnalysis[]): PlantAnalysis[] => {
+  return history.filter(isTrashed).sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+};
+
+const diffRecord = <T extends { id: string }>(id: string, before: T | undefined, after: T | undefined): FieldChange<T> | null => {
+  if (!before || !after) return before === after ? null : { id, before: before || null, after: after || null };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof T)[]);
+  const changed = Array.from(keys).filter(key => before[key] !== after[key]);
+  if (changed.length === 0) return null;
+  const pick = (record: T) => Object.fromEntries(changed.map(key => [key, record[key]])) as Partial<T>;
+  return { id, before: pick(before), after: pick(after) };
+};
+
+const withoutImages = ({ images, imageOrgans, ...rest }: PlantProfile) => rest;
+
+const diffProfile = (id: string, before: PlantProfile | undefined, after: PlantProfile | undefined): ProfileChange | null => {
+  if (!before || !after) return diffRecord(id, before, after);
+  const fields = diffRecord(id, withoutImages(before), withoutImages(after));
+  const beforeUrls = new Set(before.images);
+  const afterUrls = new Set(after.images);
+  const images = {
+    added: getProfileImages(after).filter(entry => !beforeUrls.has(entry.image)),
+    removed: getProfileImages(before).filter(entry => !afterUrls.has(entry.image))
+  };
+  const hasImageChanges = images.added.length > 0 || images.removed.length > 0;
+  if (!fields && !hasImageChanges) return null;
+  return {
+    id,
+    before: fields?.before || {},
+    after: fields?.after || {},
+    ...(hasImageChanges ? { images } : {})
+  };
+};
+
+export interface ProfileUpdates {
+  updated?: PlantProfile[];
+  removedIds?: string[];
+}
+
+export const createHistoryEdit = (
+  label: string,
+  history: PlantAnalysis[],
+  updated: PlantAnalysis[],
+  profiles: PlantProfile[] = [],
+  profileUpdates: ProfileUpdates = {}
+): HistoryEdit => {
+  const entriesById = new Map(history.map(item => [item.id, item]));
+  const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+  return {
+    label,
+    timestamp: Date.now(),
+    entries: updated.flatMap(item => diffRecord(item.id, entriesById.get(item.id), item) || []),
+    profiles: [
+      ...(profileUpdates.updated || []).map(profile => diffProfile(profile.id, profilesById.get(profile.id), profile)),
+      ...(profileUpdates.removedIds || []).map(id => diffProfile(id, profilesById.get(id), undefined))
+    ].flatMap(change => change || [])
+  };
+};
+
+export const isEmptyEdit = (edit: HistoryEdit): boolean => edit.entries.length === 0 && edit.profiles.length === 0;
+
+// Swaps in the given versions of each entry by id, keeping list order intact.
+export const replaceEntries = (history: PlantAnalysis[], entries: PlantAnalysis[]): PlantAnalysis[] => {
+  const byId = new Map(entries.map(item => [item.id, item]));
+  return history.map(item => byId.get(item.id) || item);
+};
+
+// Writes one side of an edit's changes back onto the current records. Fields the
+// edit did not touch keep their current values; records it created or removed are
+// removed or restored whole.
+export const applyFieldChanges = <T extends { id: string }>(
+  records: T[],
+  changes: FieldChange<T>[],
+  side: 'before' | 'after'
+): T[] => {
+  const byId = new Map(changes.map(change => [change.id, change[side]]));
+  const existing = new Set(records.map(record => record.id));
+  const restored = changes
+    .filter(change => !existing.has(change.id) && change[side] && !change[side === 'before' ? 'after' : 'before'])
+    .map(change => change[side] as T);
+
+  const updated = records.flatMap(record => {
+    if (!byId.has(record.id)) return [record];
+    const fields = byId.get(record.id);
+    if (!fields) return [];
+    const next = { ...record, ...fields };
+    (Object.keys(fields) as (keyof T)[]).forEach(key => {
+      if (fields[key] === undefined) delete next[key];
+    });
+    return [next];
+  });
+  return [...restored, ...updated];
+};
+
+// Like applyFieldChanges, with image deltas applied against each profile's current
+// images: undo removes what the edit added and puts back what it removed.
+export const applyProfileChanges = (profiles: PlantProfile[], changes: ProfileChange[], side: 'before' | 'after'): PlantProfile[] => {
+  const deltas = new Map(changes.flatMap(change => change.images ? [[change.id, change.images] as const] : []));
+  return applyFieldChanges(profiles, changes, side).map(profile => {
+    const delta = deltas.get(profile.id);
+    if (!delta) return profile;
+    const [toAdd, toRemove] = side === 'after' ? [delta.added, delta.removed] : [delta.removed, delta.added];
+    const removed = new Set(toRemove.map(entry => entry.image));
+    const kept = getProfileImages(profile).filter(entry => !removed.has(entry.image));
+    const present = new Set(kept.map(entry => entry.image));
+    return { ...profile, ...toProfileImageFields([...kept, ...toAdd.filter(entry => !present.has(entry.image))]) };
+  });
+};
+
+export const pushEdit = (stack: UndoStack, edit: HistoryEdit): UndoStack => ({
+  undo: [...stack.undo, edit].slice(-MAX_UNDO_DEPTH),
+  redo: []
+});
+
+// Purged entries can no longer be brought back, so edits that touch them are dropped.
+export const forgetEntries = (stack: UndoStack, ids: Set<string>): UndoStack => {
+  const keep = (edit: HistoryEdit) => !edit.entries.some(change => ids.has(change.id));
+  return { undo: stack.undo.filter(keep), redo: stack.redo.filter(keep) };
+};
@@ -0,0 +1,126 @@
+
+import { PlantAnalysis, UNKNOWN_PLANT_NAME } from "../types";
+
+export type HistorySortKey = 'timestamp' | 'name' | 'status' | 'confidence' | 'analysisTime' | 'coordinates';
+export type SortDirection = 'asc' | 'desc';
+
+export interface HistoryQuery {
+  text: string;
+  species: string;
+  invasive: 'any' | 'invasive' | 'safe';
+  unknown: 'any' | 'only' | 'exclude';
+  favoriteOnly: boolean;
+  duplicatesOnly: boolean;
+  review: 'any' | 'incorrect' | 'corrected' | 'unflagged' | 'verified' | 'unverified';
+  minConfidence: number; // percent
+  maxConfidence: number; // percent
+  dateFrom: string; // yyyy-mm-dd
+  dateTo: string; // yyyy-mm-dd
+  hasCoordinates: 'any' | 'yes' | 'no';
+  sortKey: HistorySortKey;
+  sortDirection: SortDirection;
+}
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  text: '',
+  species: '',
+  invasive: 'any',
+  unknown: 'any',
+  favoriteOnly: false,
+  duplicatesOnly: false,
+  review: 'any',
+  minConfidence: 0,
+  maxConfidence: 100,
+  dateFrom: '',
+  dateTo: '',
+  hasCoordinates: 'any',
+  sortKey: 'timestamp',
+  sortDirection: 'desc'
+};
+
+// A corrected observation is filtered and sorted by its corrected identity.
+export const getEffectiveName = (item: PlantAnalysis) => item.correctedData?.name ?? item.name;
+export const getEffectiveScientificName = (item: PlantAnalysis) => item.correctedData?.scientificName ?? item.scientificName;
+export const getEffectiveInvasive = (item: PlantAnalysis) => item.correctedData?.isInvasive ?? item.isInvasive;
+// A correction that names a species without picking a profile detaches the observation from any profile.
+export const getEffectiveProfileId = (item: PlantAnalysis) => item.correctedData ? item.correctedData.matchedProfileId : item.matchedProfileId;
+export const isUnknownResult = (item: PlantAnalysis) => getEffectiveName(item) === UNKNOWN_PLANT_NAME;
+
+// How many observations share each photo, by image hash. Only hashes seen more
+// than once are included.
+export const getDuplicateCounts = (entries: PlantAnalysis[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  entries.forEach(item => {
+    if (item.imageHash) counts.set(item.imageHash, (counts.get(item.imageHash) || 0) + 1);
+  });
+  counts.forEach((count, hash) => {
+    if (count < 2) counts.delete(hash);
+  });
+  return counts;
+};
+
+export const getSpeciesOptions = (entries: PlantAnalysis[]): string[] => {
+  return Array.from(new Set(entries.map(getEffectiveName))).sort((a, b) => a.localeCompare(b));
+};
+
+export const countActiveFilters = (query: HistoryQuery): number => {
+  return (Object.keys(DEFAULT_HISTORY_QUERY) as (keyof HistoryQuery)[])
+    .filter(key => key !== 'sortKey' && key !== 'sortDirection' && query[key] !== DEFAULT_HISTORY_QUERY[key])
+    .length;
+};
+
+const statusRank = (item: PlantAnalysis) => {
+  if (item.isIncorrect) return 0;
+  if (isUnknownResult(item)) return 1;
+  return getEffectiveInvasive(item) ? 3 : 2;
+};
+
+const compare = (a: PlantAnalysis, b: PlantAnalysis, key: HistorySortKey): number => {
+  switch (key) {
+    case 'name': return getEffectiveName(a).localeCompare(getEffectiveName(b));
+    case 'status': return statusRank(a) - statusRank(b);
+    case 'confidence': return a.confidence - b.confidence;
+    case 'analysisTime': return a.analysisTime - b.analysisTime;
+    case 'coordinates': return (a.coordinates ? 1 : 0) - (b.coordinates ? 1 : 0) || (a.coordinates?.lat ?? 0) - (b.coordinates?.lat ?? 0);
+    default: return a.timestamp - b.timestamp;
+  }
+};
+
+export const applyHistoryQuery = (entries: PlantAnalysis[], query: HistoryQuery): PlantAnalysis[] => {
+  const text = query.text.trim().toLowerCase();
+  const from = query.dateFrom ? new Date(`${query.dateFrom}T00:00:00`).getTime() : null;
+  const to = query.dateTo ? new Date(`${query.dateTo}T23:59:59.999`).getTime() : null;
+  const duplicates = query.duplicatesOnly ? getDuplicateCounts(entries) : null;
+
+  const filtered = entries.filter(item => {
+    if (text) {
+      const haystack = [item.id, item.name, item.scientificName, item.correctedData?.name, item.correctedData?.scientificName]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!haystack.includes(text)) return false;
+    }
+    if (query.species && getEffectiveName(item) !== query.species) return false;
+    if (query.invasive === 'invasive' && !getEffectiveInvasive(item)) return false;
+    if (query.invasive === 'safe' && getEffectiveInvasive(item)) return false;
+    if (query.unknown === 'only' && !isUnknownResult(item)) return false;
+    if (query.unknown === 'exclude' && isUnknownResult(item)) return false;
+    if (query.favoriteOnly && !item.isFavorite) return false;
+    if (duplicates && !(item.imageHash && duplicates.has(item.imageHash))) return false;
+    if (query.review === 'incorrect' && !item.isIncorrect) return false;
+    if (query.review === 'corrected' && !item.correctedData) return false;
+    if (query.review === 'unflagged' && (item.isIncorrect || item.correctedData)) return false;
+    if (query.review === 'verified' && !item.review) return false;
+    if (query.review === 'unverified' && item.review) return false;
+    const confidence = item.confidence * 100;
+    if (confidence < query.minConfidence || confidence > query.maxConfidence) return false;
+    if (from !== null && item.timestamp < from) return false;
+    if (to !== null && item.timestamp > to) return false;
+    if (query.hasCoordinates === 'yes' && !item.coordinates) return false;
+    if (query.hasCoordinates === 'no' && item.coordinates) return false;
+    return true;
+  });
+
+  const direction = query.sortDirection === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => compare(a, b, query.sortKey) * direction || b.timestamp - a.timestamp);
+};
@@ -0,0 +1,98 @@
+
+export type IdentificationErrorKind = 'quota' | 'auth' | 'network' | 'malformed' | 'empty-database' | 'unknown';
+
+interface ErrorDetails {
+  title: string;
+  hint: string;
+  icon: string;
+  retryable: boolean;
+}
+
+export const ERROR_DETAILS: Record<IdentificationErrorKind, ErrorDetails> = {
+  'quota': {
+    title: 'Rate limit or quota reached',
+    hint: 'The backend is throttling requests. Wait a moment and retry, or switch to an offline backend.',
+    icon: 'fa-hourglass-half',
+    retryable: true
+  },
+  'auth': {
+    title: 'Authentication failed',
+    hint: 'The API key is missing, invalid or lacks access to the model. Check the API_KEY configuration.',
+    icon: 'fa-key',
+    retryable: false
+  },
+  'network': {
+    title: 'Network unavailable',
+    hint: 'The identification service could not be reached. Check your connection and retry, or work offline.',
+    icon: 'fa-wifi',
+    retryable: true
+  },
+  'malformed': {
+    title: 'Unusable response',
+    hint: 'The model returned a result that failed validation. Retrying usually succeeds.',
+    icon: 'fa-file-circle-exclamation',
+    retryable: true
+  },
+  'empty-database': {
+    title: 'Training database is empty',
+    hint: 'Identification only matches against your own profiles. Add at least one in the Training DB view.',
+    icon: 'fa-database',
+    retryable: false
+  },
+  'unknown': {
+    title: 'Identification failed',
+    hint: 'An unexpected error occurred. Retry, and check the console if it persists.',
+    icon: 'fa-circle-exclamation',
+    retryable: true
+  }
+};
+
+export class IdentificationError extends Error {
+  readonly kind: IdentificationErrorKind;
+
+  constructor(kind: IdentificationErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'IdentificationError';
+    this.kind = kind;
+  }
+
+  get retryable(): boolean {
+    return ERROR_DETAILS[this.kind].retryable;
+  }
+}
+
+export const createEmptyDatabaseError = () => {
+  return new IdentificationError('empty-database', "Training database is empty. Please add plant profiles first.");
+};
+
+// Maps whatever a provider threw (SDK ApiError, fetch TypeError, plain Error)
+// onto an error kind, going by HTTP status first and message text second.
+export const toIdentificationError = (err: unknown): IdentificationError => {
+  if (err instanceof IdentificationError) return err;
+
+  const status = Number((err as { status?: unknown })?.status) || 0;
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  const text = message.toLowerCase();
+
+  if (status === 429 || /\b429\b|resource_exhausted|rate limit|quota/.test(text)) {
+    return new IdentificationError('quota', message || 'Request quota exceeded.', err);
+  }
+  if (status === 401 || status === 403 || /\b40[13]\b|api key|api_key|permission_denied|unauthenticated/.test(text)) {
+    return new IdentificationError('auth', message || 'The API key was rejected.', err);
+  }
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false)
+    || (err instanceof TypeError && /fetch|network|load failed/.test(text))
+    || /network|failed to fetch|timed? ?out|econn|\b50[234]\b|unavailable/.test(text)) {
+    return new IdentificationError('network', message || 'The service could not be reached.', err);
+  }
+  if (err instanceof SyntaxError) {
+    return new IdentificationError('malformed', `Response was not valid JSON: ${message}`, err);
+  }
+  return new IdentificationError('unknown', message || 'Identification failed.', err);
+};
+
+// Failures that clear up on their own, so automated retries should back off and try again.
+export const isTransientIdentificationError = (err: unknown): boolean => {
+  const kind = toIdentificationError(err).kind;
+  return kind === 'quota' || kind === 'network';
+};
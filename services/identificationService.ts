@@ -0,0 +1,116 @@
+
+import { AnalysisResult, IdentificationProvider, IdentificationProviderId, MatchCandidate, PlantProfile } from "../types";
+import { geminiProvider } from "./geminiService";
+import { localMatchProvider } from "./localMatchProvider";
+import { mockProvider } from "./mockProvider";
+import { getShortlistSize, shortlistProfiles } from "./profileIndex";
+import { createEmptyDatabaseError, toIdentificationError } from "./identificationErrors";
+import { reconcileWithProfiles, validateAnalysisResult } from "./resultValidation";
+import { getResultCacheKey, isCacheBypassed, readCachedResult, writeCachedResult } from "./resultCache";
+
+const PROVIDER_STORAGE_KEY = 'flora_provider';
+const MAX_CANDIDATES = 5;
+
+export const PROVIDERS: IdentificationProvider[] = [geminiProvider, localMatchProvider, mockProvider];
+
+export const getActiveProviderId = (): IdentificationProviderId => {
+  const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  return PROVIDERS.some(p => p.id === saved) ? saved as IdentificationProviderId : geminiProvider.id;
+};
+
+export const setActiveProviderId = (id: IdentificationProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+export const getActiveProvider = (): IdentificationProvider => {
+  const id = getActiveProviderId();
+  return PROVIDERS.find(p => p.id === id) || geminiProvider;
+};
+
+// Resolves candidates against the profile list (providers only guarantee the id),
+// drops unknown ids and duplicates, makes sure the top match is listed, and sorts
+// best-first.
+export const rankCandidates = (result: AnalysisResult, profiles: PlantProfile[]): MatchCandidate[] => {
+  const profilesById = new Map(profiles.map(p => [p.id, p]));
+  const raw: Partial<MatchCandidate>[] = [...(result.candidates || [])];
+  if (result.matchedProfileId && !raw.some(c => c.profileId === result.matchedProfileId)) {
+    raw.push({ profileId: result.matchedProfileId, confidence: result.confidence, rationale: result.description });
+  }
+
+  const best = new Map<string, MatchCandidate>();
+  raw.forEach(candidate => {
+    const profile = candidate.profileId ? profilesById.get(candidate.profileId) : undefined;
+    if (!profile) return;
+    const confidence = Math.min(1, Math.max(0, Number(candidate.confidence) || 0));
+    const existing = best.get(profile.id);
+    if (existing && existing.confidence >= confidence) return;
+    best.set(profile.id, {
+      profileId: profile.id,
+      name: profile.name,
+      scientificName: profile.scientificName,
+      isInvasive: profile.isInvasive,
+      confidence,
+      rationale: candidate.rationale || ''
+    });
+  });
+
+  return [...best.values()].sort((a, b) => b.confidence - a.confidence).slice(0, MAX_CANDIDATES);
+};
+
+// Identical requests already being analyzed, so duplicate photos in one batch
+// share a single model call.
+const inFlight = new Map<string, Promise<AnalysisResult>>();
+
+const identify = async (
+  provider: IdentificationProvider,
+  base64Image: string,
+  profiles: PlantProfile[]
+): Promise<AnalysisResult> => {
+  let raw: unknown;
+  try {
+    // Network backends only see the locally nearest profiles, keeping requests small.
+    const sent = provider.requiresNetwork
+      ? await shortlistProfiles(base64Image, profiles, getShortlistSize()).catch(() => profiles)
+      : profiles;
+    raw = await provider.analyze(base64Image, sent);
+  } catch (err) {
+    throw toIdentificationError(err);
+  }
+
+  const result = reconcileWithProfiles(validateAnalysisResult(raw), profiles);
+  return { ...result, candidates: rankCandidates(result, profiles) };
+};
+
+// Runs the active provider and returns a validated result reconciled against the
+// training profiles. Results are cached by image content and profile-set version
+// unless the cache is bypassed, globally or per call. Every failure is rethrown as
+// an IdentificationError.
+export const analyzePlantWithContext = async (
+  base64Image: string,
+  profiles: PlantProfile[],
+  options: { bypassCache?: boolean; imageHash?: string } = {}
+): Promise<AnalysisResult> => {
+  if (profiles.length === 0) throw createEmptyDatabaseError();
+
+  const provider = getActiveProvider();
+  // An image that can't be hashed is still identified, just without caching.
+  const cacheKey = await getResultCacheKey(provider.id, base64Image, profiles, options.imageHash).catch(() => null);
+  if (!cacheKey) return identify(provider, base64Image, profiles);
+  const { key, imageHash } = cacheKey;
+
+  if (!options.bypassCache && !isCacheBypassed()) {
+    const cached = await readCachedResult(key);
+    if (cached) return { ...cached, imageHash, fromCache: true };
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = identify(provider, base64Image, profiles).then(result => {
+      writeCachedResult(key, result);
+      return result;
+    });
+    inFlight.set(key, pending);
+    pending.finally(() => inFlight.delete(key)).catch(() => {});
+  }
+  return { ...(await pending), imageHash };
+};
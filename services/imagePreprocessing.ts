@@ -0,0 +1,161 @@
+
+import { computeImageDigest, loadImage } from "./imageUtils";
+
+const PREPROCESS_STORAGE_KEY = 'flora_image_preprocessing';
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|webp|gif|bmp|avif|heic|heif)$/i;
+
+// Formats the identification backends accept as-is. Anything else, or anything
+// that needs resizing or rotating, is re-encoded as JPEG.
+const PASSTHROUGH_TYPES = ['image/jpeg', 'image/webp'];
+
+export interface PreprocessSettings {
+  maxDimension: number; // longest side in pixels
+  quality: number; // JPEG quality when re-encoding, 0-1
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  hash: string; // SHA-256 of the stored bytes, the same digest the result cache uses
+  mimeType: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+  bytes: number;
+}
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  maxDimension: 1600,
+  quality: 0.85
+};
+
+export const getPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PREPROCESS_STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_PREPROCESS_SETTINGS, ...saved } : DEFAULT_PREPROCESS_SETTINGS;
+  } catch {
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings) => {
+  localStorage.setItem(PREPROCESS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Folder pickers hand over everything in the tree, including .DS_Store, macOS
+// "._" resource forks that carry an image extension, and sidecar files.
+export const isImageFile = (file: File): boolean => {
+  if (file.name.startsWith('.')) return false;
+  return file.type ? file.type.startsWith('image/') : IMAGE_EXTENSION.test(file.name);
+};
+
+export const filterImageFiles = <T extends File>(files: T[]): T[] => files.filter(isImageFile);
+
+// EXIF orientation (1-8) from a JPEG's APP1 segment; 1 when absent or not a JPEG.
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // start of scan: no more metadata
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little) || 1;
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Decodes upright: both decoders apply the EXIF orientation to the pixels.
+const decode = async (blob: Blob): Promise<{ image: CanvasImageSource; width: number; height: number; release: () => void }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+      return { image: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+      // Some browsers decode more formats through <img> than through createImageBitmap.
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    return { image: img, width: img.naturalWidth, height: img.naturalHeight, release: () => {} };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Prepares a photo for storage and identification: decoded, rotated upright,
+// downscaled to the configured size and re-encoded. Upright JPEG/WebP files that
+// already fit are kept byte-for-byte to avoid a needless quality loss.
+export const preprocessImage = async (blob: Blob, settings: PreprocessSettings = getPreprocessSettings()): Promise<PreparedImage> => {
+  const name = blob instanceof File ? blob.name : 'Image';
+  const buffer = await blob.arrayBuffer();
+  const orientation = readExifOrientation(buffer);
+
+  let decoded;
+  try {
+    decoded = await decode(blob);
+  } catch {
+    throw new Error(`${name} could not be decoded as an image.`);
+  }
+
+  try {
+    const scale = Math.min(1, settings.maxDimension / Math.max(decoded.width, decoded.height));
+    const width = Math.max(1, Math.round(decoded.width * scale));
+    const height = Math.max(1, Math.round(decoded.height * scale));
+
+    let dataUrl: string;
+    let mimeType = blob.type;
+    if (scale === 1 && orientation === 1 && PASSTHROUGH_TYPES.includes(blob.type)) {
+      dataUrl = await blobToDataUrl(blob);
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Canvas rendering is not available.");
+      // JPEG has no alpha; transparent PNG areas would otherwise turn black.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(decoded.image, 0, 0, width, height);
+      dataUrl = canvas.toDataURL('image/jpeg', settings.quality);
+      mimeType = 'image/jpeg';
+    }
+
+    return {
+      dataUrl,
+      hash: await computeImageDigest(dataUrl),
+      mimeType,
+      width,
+      height,
+      originalBytes: blob.size,
+      bytes: Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4)
+    };
+  } finally {
+    decoded.release();
+  }
+};
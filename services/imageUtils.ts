@@ -0,0 +1,60 @@
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Unable to decode image."));
+    img.src = src;
+  });
+};
+
+// Small JPEG preview for list views, so tables never decode full-resolution photos.
+export const createThumbnail = async (dataUrl: string, maxSize = 96, quality = 0.7): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas rendering is not available.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Media type declared in a data URL's header, e.g. "image/png".
+export const getDataUrlMimeType = (dataUrl: string, fallback = 'image/jpeg'): string => {
+  return dataUrl.match(/^data:([^;,]+)/)?.[1] || fallback;
+};
+
+// Region of an image as fractions of its width and height, 0-1.
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Cuts the region out at full resolution and re-encodes it as JPEG.
+export const cropImage = async (dataUrl: string, region: CropRegion, quality = 0.92): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const sx = Math.round(region.x * img.naturalWidth);
+  const sy = Math.round(region.y * img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * img.naturalWidth));
+  canvas.height = Math.max(1, Math.round(region.height * img.naturalHeight));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas rendering is not available.");
+  ctx.drawImage(img, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// SHA-256 of the decoded image bytes, so the same photo hashes identically
+// however its data URL was produced.
+export const computeImageDigest = async (dataUrl: string): Promise<string> => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
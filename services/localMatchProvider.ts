@@ -0,0 +1,64 @@
+
+import { AnalysisResult, IdentificationProvider, PlantProfile, UNKNOWN_PLANT_NAME } from "../types";
+import { rankProfiles } from "./profileIndex";
+import { createEmptyDatabaseError } from "./identificationErrors";
+
+// Similarity below this floor counts as no resemblance; confidence scales
+// linearly from here up to an identical image.
+const SIMILARITY_FLOOR = 0.6;
+const MATCH_THRESHOLD = 0.5;
+const CANDIDATE_COUNT = 5;
+
+const toConfidence = (score: number): number => {
+  return Math.max(0, Math.min(1, (score - SIMILARITY_FLOOR) / (1 - SIMILARITY_FLOOR)));
+};
+
+const analyzeLocally = async (
+  base64Image: string,
+  profiles: PlantProfile[]
+): Promise<AnalysisResult> => {
+  if (profiles.length === 0) {
+    throw createEmptyDatabaseError();
+  }
+
+  const ranked = await rankProfiles(base64Image, profiles);
+  const candidates = ranked.slice(0, CANDIDATE_COUNT).map(({ profile, score }) => ({
+    profileId: profile.id,
+    name: profile.name,
+    scientificName: profile.scientificName,
+    isInvasive: profile.isInvasive,
+    confidence: Number(toConfidence(score).toFixed(3)),
+    rationale: `Color/texture similarity ${(score * 100).toFixed(1)}% to the closest training image.`
+  }));
+
+  const best = candidates[0];
+  if (!best || best.confidence < MATCH_THRESHOLD) {
+    return {
+      name: UNKNOWN_PLANT_NAME,
+      scientificName: "N/A",
+      isInvasive: false,
+      confidence: 1 - (best?.confidence || 0),
+      description: "Quick match: no training image is visually close enough to this specimen.",
+      matchedProfileId: "unknown",
+      candidates
+    };
+  }
+
+  return {
+    name: best.name,
+    scientificName: best.scientificName,
+    isInvasive: best.isInvasive,
+    confidence: best.confidence,
+    description: `Quick match: nearest training profile by local image features. ${best.rationale}`,
+    matchedProfileId: best.profileId,
+    candidates
+  };
+};
+
+export const localMatchProvider: IdentificationProvider = {
+  id: 'local',
+  label: 'Local Quick Match',
+  description: 'Nearest-neighbour match against training photos using in-browser image features. Instant and offline, but less accurate than a model.',
+  requiresNetwork: false,
+  analyze: analyzeLocally
+};
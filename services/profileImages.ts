@@ -0,0 +1,48 @@
+
+import { PlantOrgan, PlantProfile } from "../types";
+
+export interface ProfileImage {
+  image: string;
+  organ: PlantOrgan | null;
+}
+
+// Images and their organ tags are stored as parallel arrays. Every edit goes
+// through this paired form so the two never drift apart; images appended
+// elsewhere without a tag simply read as untagged.
+export const getProfileImages = (profile: PlantProfile): ProfileImage[] => {
+  return profile.images.map((image, i) => ({ image, organ: profile.imageOrgans?.[i] ?? null }));
+};
+
+export const toProfileImageFields = (entries: ProfileImage[]): Pick<PlantProfile, 'images' | 'imageOrgans'> => ({
+  images: entries.map(entry => entry.image),
+  imageOrgans: entries.map(entry => entry.organ)
+});
+
+export const addProfileImages = (profile: PlantProfile, images: string[]) => {
+  const existing = new Set(profile.images);
+  const added = images.filter(image => !existing.has(image)).map(image => ({ image, organ: null }));
+  return toProfileImageFields([...getProfileImages(profile), ...added]);
+};
+
+export const removeProfileImage = (profile: PlantProfile, index: number) => {
+  return toProfileImageFields(getProfileImages(profile).filter((_, i) => i !== index));
+};
+
+export const moveProfileImage = (profile: PlantProfile, from: number, to: number) => {
+  const entries = getProfileImages(profile);
+  const [moved] = entries.splice(from, 1);
+  entries.splice(Math.max(0, Math.min(to, entries.length)), 0, moved);
+  return toProfileImageFields(entries);
+};
+
+// The cover is simply the first image, which is also the one listed first as a
+// reference for the model.
+export const setCoverImage = (profile: PlantProfile, index: number) => moveProfileImage(profile, index, 0);
+
+export const replaceProfileImage = (profile: PlantProfile, index: number, image: string) => {
+  return toProfileImageFields(getProfileImages(profile).map((entry, i) => i === index ? { ...entry, image } : entry));
+};
+
+export const setImageOrgan = (profile: PlantProfile, index: number, organ: PlantOrgan | null) => {
+  return toProfileImageFields(getProfileImages(profile).map((entry, i) => i === index ? { ...entry, organ } : entry));
+};
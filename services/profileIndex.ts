@@ -0,0 +1,206 @@
+
+import { PlantProfile } from "../types";
+import { loadImage } from "./imageUtils";
+
+const SHORTLIST_STORAGE_KEY = 'flora_shortlist_size';
+export const DEFAULT_SHORTLIST_SIZE = 8;
+
+// Feature layout: an HSV color histogram (hue x saturation x value bins) followed
+// by a magnitude-weighted gradient orientation histogram, each L2-normalized so
+// color and texture contribute equally to cosine similarity.
+const FEATURE_SIZE = 64;
+const HUE_BINS = 8;
+const SAT_BINS = 4;
+const VAL_BINS = 4;
+const ORIENTATION_BINS = 16;
+const COLOR_LENGTH = HUE_BINS * SAT_BINS * VAL_BINS;
+
+export interface ProfileMatch {
+  profile: PlantProfile;
+  score: number; // best cosine similarity between the query and any of the profile's images, 0-1
+}
+
+export interface ProfileIndexStatus {
+  indexedImages: number;
+  totalImages: number;
+  isBuilding: boolean;
+}
+
+// 0 disables the shortlist and sends every profile.
+export const getShortlistSize = (): number => {
+  const saved = localStorage.getItem(SHORTLIST_STORAGE_KEY);
+  const size = saved === null ? NaN : Number(saved);
+  return Number.isFinite(size) ? size : DEFAULT_SHORTLIST_SIZE;
+};
+
+export const saveShortlistSize = (size: number) => {
+  localStorage.setItem(SHORTLIST_STORAGE_KEY, String(Math.max(0, Math.round(size))));
+};
+
+let featureCtx: CanvasRenderingContext2D | null = null;
+
+const getFeatureContext = (): CanvasRenderingContext2D => {
+  if (!featureCtx) {
+    const canvas = document.createElement('canvas');
+    canvas.width = FEATURE_SIZE;
+    canvas.height = FEATURE_SIZE;
+    featureCtx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!featureCtx) throw new Error("Canvas rendering is not available.");
+  }
+  return featureCtx;
+};
+
+const normalize = (values: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i] * values[i];
+  const norm = Math.sqrt(sum) || 1;
+  for (let i = 0; i < values.length; i++) values[i] /= norm;
+};
+
+export const computeFeatures = async (dataUrl: string): Promise<Float32Array> => {
+  const img = await loadImage(dataUrl);
+  const ctx = getFeatureContext();
+  ctx.drawImage(img, 0, 0, FEATURE_SIZE, FEATURE_SIZE);
+  const { data } = ctx.getImageData(0, 0, FEATURE_SIZE, FEATURE_SIZE);
+
+  const color = new Float32Array(COLOR_LENGTH);
+  const orientation = new Float32Array(ORIENTATION_BINS);
+  const gray = new Float32Array(FEATURE_SIZE * FEATURE_SIZE);
+
+  for (let p = 0; p < gray.length; p++) {
+    const r = data[p * 4] / 255;
+    const g = data[p * 4 + 1] / 255;
+    const b = data[p * 4 + 2] / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    let hue = 0;
+    if (delta > 0) {
+      if (max === r) hue = ((g - b) / delta + 6) % 6;
+      else if (max === g) hue = (b - r) / delta + 2;
+      else hue = (r - g) / delta + 4;
+    }
+    const sat = max === 0 ? 0 : delta / max;
+    const h = Math.min(HUE_BINS - 1, Math.floor(hue / 6 * HUE_BINS));
+    const s = Math.min(SAT_BINS - 1, Math.floor(sat * SAT_BINS));
+    const v = Math.min(VAL_BINS - 1, Math.floor(max * VAL_BINS));
+    color[(h * SAT_BINS + s) * VAL_BINS + v]++;
+    gray[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+
+  for (let y = 1; y < FEATURE_SIZE - 1; y++) {
+    for (let x = 1; x < FEATURE_SIZE - 1; x++) {
+      const i = y * FEATURE_SIZE + x;
+      const gx = gray[i + 1] - gray[i - 1];
+      const gy = gray[i + FEATURE_SIZE] - gray[i - FEATURE_SIZE];
+      const magnitude = Math.hypot(gx, gy);
+      if (magnitude === 0) continue;
+      // Orientation modulo 180°, so opposite-facing edges share a bin.
+      const angle = (Math.atan2(gy, gx) + Math.PI) % Math.PI;
+      orientation[Math.min(ORIENTATION_BINS - 1, Math.floor(angle / Math.PI * ORIENTATION_BINS))] += magnitude;
+    }
+  }
+
+  normalize(color);
+  normalize(orientation);
+  const features = new Float32Array(COLOR_LENGTH + ORIENTATION_BINS);
+  features.set(color);
+  features.set(orientation, COLOR_LENGTH);
+  return features;
+};
+
+// Both halves are unit length, so the combined vector has norm sqrt(2).
+const similarity = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot / 2;
+};
+
+// Feature vectors keyed by the training image itself. Images are immutable data
+// URLs, so an edit to a profile only computes vectors for images not seen before.
+const featureCache = new Map<string, Promise<Float32Array | null>>();
+
+const getFeatures = (dataUrl: string): Promise<Float32Array | null> => {
+  let pending = featureCache.get(dataUrl);
+  if (!pending) {
+    pending = computeFeatures(dataUrl).catch(() => null);
+    featureCache.set(dataUrl, pending);
+  }
+  return pending;
+};
+
+// Brings the index in line with the current profiles: vectors for new images are
+// computed and those for removed images dropped.
+export const syncProfileIndex = async (
+  profiles: PlantProfile[],
+  onProgress?: (status: ProfileIndexStatus) => void
+): Promise<ProfileIndexStatus> => {
+  const current = new Set(profiles.flatMap(p => p.images).filter(Boolean));
+  featureCache.forEach((_, key) => {
+    if (!current.has(key)) featureCache.delete(key);
+  });
+
+  const totalImages = current.size;
+  let indexedImages = 0;
+  for (const image of current) {
+    await getFeatures(image);
+    indexedImages++;
+    onProgress?.({ indexedImages, totalImages, isBuilding: indexedImages < totalImages });
+  }
+  return { indexedImages, totalImages, isBuilding: false };
+};
+
+// Scores every profile against the query image, best first. Profiles with no
+// usable images score 0.
+export const rankProfiles = async (queryDataUrl: string, profiles: PlantProfile[]): Promise<ProfileMatch[]> => {
+  const query = await computeFeatures(queryDataUrl);
+  const matches = await Promise.all(profiles.map(async profile => {
+    const vectors = await Promise.all(profile.images.filter(Boolean).map(getFeatures));
+    const score = vectors.reduce((best, v) => v ? Math.max(best, similarity(query, v)) : best, 0);
+    return { profile, score };
+  }));
+  return matches.sort((a, b) => b.score - a.score);
+};
+
+// Mean feature vector of a profile's images. Profiles are replaced rather than
+// mutated on edit, so the object itself is a safe cache key.
+const centroidCache = new WeakMap<PlantProfile, Promise<Float32Array | null>>();
+
+const getCentroid = (profile: PlantProfile): Promise<Float32Array | null> => {
+  let pending = centroidCache.get(profile);
+  if (!pending) {
+    pending = Promise.all(profile.images.filter(Boolean).map(getFeatures)).then(vectors => {
+      const usable = vectors.filter((v): v is Float32Array => !!v);
+      if (usable.length === 0) return null;
+      const centroid = new Float32Array(usable[0].length);
+      usable.forEach(v => v.forEach((value, i) => { centroid[i] += value / usable.length; }));
+      return centroid;
+    });
+    centroidCache.set(profile, pending);
+  }
+  return pending;
+};
+
+// Cosine similarity of two profiles' mean image features, 0-1; null when either
+// profile has no usable images.
+export const compareProfiles = async (a: PlantProfile, b: PlantProfile): Promise<number | null> => {
+  const [ca, cb] = await Promise.all([getCentroid(a), getCentroid(b)]);
+  if (!ca || !cb) return null;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < ca.length; i++) {
+    dot += ca[i] * cb[i];
+    na += ca[i] * ca[i];
+    nb += cb[i] * cb[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : null;
+};
+
+// Nearest profiles to send to a model. Profiles without images can't be scored
+// locally, so they are always kept and left for the model to judge by name.
+export const shortlistProfiles = async (queryDataUrl: string, profiles: PlantProfile[], size: number): Promise<PlantProfile[]> => {
+  if (size <= 0 || profiles.length <= size) return profiles;
+  const ranked = await rankProfiles(queryDataUrl, profiles);
+  const withImages = ranked.filter(m => m.profile.images.some(Boolean));
+  const imageless = ranked.filter(m => !m.profile.images.some(Boolean)).map(m => m.profile);
+  return [...withImages.slice(0, size).map(m => m.profile), ...imageless];
+};
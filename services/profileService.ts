@@ -0,0 +1,131 @@
+
+import { PENDING_SCIENTIFIC_NAME, PlantAnalysis, PlantProfile } from "../types";
+import { applyAuditedUpdate } from "./auditService";
+import { compareProfiles } from "./profileIndex";
+import { getProfileImages, toProfileImageFields } from "./profileImages";
+
+const normalizeName = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// The existing profile for a species, matched on scientific name first since
+// common names vary by region, then on common name.
+export const findMatchingProfile = (
+  profiles: PlantProfile[],
+  name: string,
+  scientificName: string
+): PlantProfile | undefined => {
+  const scientific = normalizeName(scientificName);
+  const common = normalizeName(name);
+  return (scientific ? profiles.find(p => normalizeName(p.scientificName) === scientific) : undefined)
+    || (common ? profiles.find(p => normalizeName(p.name) === common) : undefined);
+};
+
+// Profiles whose common or scientific name contains the query, prefix matches first.
+export const searchProfiles = (profiles: PlantProfile[], query: string, limit: number): PlantProfile[] => {
+  const text = normalizeName(query);
+  if (!text) return [];
+  const startsWith = (p: PlantProfile) => normalizeName(p.name).startsWith(text) || normalizeName(p.scientificName).startsWith(text);
+  return profiles
+    .filter(p => normalizeName(p.name).includes(text) || normalizeName(p.scientificName).includes(text))
+    .sort((a, b) => Number(startsWith(b)) - Number(startsWith(a)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+export type DuplicateReason = 'scientific-name' | 'common-name' | 'images';
+
+export interface DuplicateProfilePair {
+  a: PlantProfile;
+  b: PlantProfile;
+  reasons: DuplicateReason[];
+  similarity: number | null; // image similarity, 0-1
+}
+
+// Mean-feature similarity above which two profiles likely show the same species.
+export const IMAGE_DUPLICATE_THRESHOLD = 0.92;
+
+// Likely duplicate pairs, strongest evidence first. The folder-upload placeholder
+// scientific name says nothing about the species, so it never counts as a match.
+export const findDuplicateProfiles = async (profiles: PlantProfile[]): Promise<DuplicateProfilePair[]> => {
+  const pairs: DuplicateProfilePair[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+      const reasons: DuplicateReason[] = [];
+      const scientific = normalizeName(a.scientificName);
+      if (scientific && a.scientificName !== PENDING_SCIENTIFIC_NAME && scientific === normalizeName(b.scientificName)) {
+        reasons.push('scientific-name');
+      }
+      if (normalizeName(a.name) && normalizeName(a.name) === normalizeName(b.name)) reasons.push('common-name');
+      const similarity = await compareProfiles(a, b);
+      if (similarity !== null && similarity >= IMAGE_DUPLICATE_THRESHOLD) reasons.push('images');
+      if (reasons.length > 0) pairs.push({ a, b, reasons, similarity });
+    }
+  }
+  return pairs.sort((x, y) => y.reasons.length - x.reasons.length || (y.similarity ?? 0) - (x.similarity ?? 0));
+};
+
+// Folds the sources into the target: images (with their organ tags) are combined
+// without repeats and the profile is flagged invasive if any of them was.
+export const combineProfiles = (target: PlantProfile, sources: PlantProfile[]): PlantProfile => {
+  const seen = new Set<string>();
+  const images = [target, ...sources].flatMap(getProfileImages).filter(entry => {
+    if (seen.has(entry.image)) return false;
+    seen.add(entry.image);
+    return true;
+  });
+  return {
+    ...target,
+    ...toProfileImageFields(images),
+    isInvasive: [target, ...sources].some(p => p.isInvasive),
+    dateCreated: Math.min(target.dateCreated, ...sources.map(p => p.dateCreated))
+  };
+};
+
+// Points an observation's profile references at the merged profile. Returns null
+// when the observation doesn't reference any of the merged-away profiles.
+export const retargetProfileReferences = (
+  entry: PlantAnalysis,
+  fromIds: Set<string>,
+  target: PlantProfile
+): PlantAnalysis | null => {
+  const matched = !!entry.matchedProfileId && fromIds.has(entry.matchedProfileId);
+  const corrected = !!entry.correctedData?.matchedProfileId && fromIds.has(entry.correctedData.matchedProfileId);
+  const inCandidates = !!entry.candidates?.some(c => fromIds.has(c.profileId));
+  if (!matched && !corrected && !inCandidates) return null;
+
+  const updates: Partial<PlantAnalysis> = {};
+  if (matched) updates.matchedProfileId = target.id;
+  if (corrected && entry.correctedData) updates.correctedData = { ...entry.correctedData, matchedProfileId: target.id };
+  if (inCandidates && entry.candidates) {
+    // Both profiles may have been ranked; keep the better-ranked entry only.
+    const seen = new Set<string>();
+    updates.candidates = entry.candidates
+      .map(c => fromIds.has(c.profileId) ? { ...c, profileId: target.id, name: target.name, scientificName: target.scientificName, isInvasive: target.isInvasive } : c)
+      .filter(c => {
+        if (seen.has(c.profileId)) return false;
+        seen.add(c.profileId);
+        return true;
+      });
+  }
+  return applyAuditedUpdate(entry, updates, `Profile merged into ${target.name}`);
+};
+
+// Moves the chosen images out of a profile into a new one with the given identity.
+export const splitProfile = (
+  profile: PlantProfile,
+  images: string[],
+  details: Pick<PlantProfile, 'name' | 'scientificName' | 'isInvasive'>
+): { remaining: PlantProfile; created: PlantProfile } => {
+  const moved = new Set(images);
+  const entries = getProfileImages(profile);
+  return {
+    remaining: { ...profile, ...toProfileImageFields(entries.filter(entry => !moved.has(entry.image))) },
+    created: {
+      id: Math.random().toString(36).substr(2, 9),
+      ...details,
+      ...toProfileImageFields(entries.filter(entry => moved.has(entry.image))),
+      description: `Split from profile ${profile.name} (${profile.id}).`,
+      dateCreated: Date.now()
+    }
+  };
+};
@@ -0,0 +1,123 @@
+
+import { PlantOrgan, PlantProfile } from "../types";
+import { createThumbnail } from "./imageUtils";
+import { getProfileImages } from "./profileImages";
+
+const BUDGET_STORAGE_KEY = 'flora_reference_budget';
+
+// Gemini bills an image no larger than 384px on either side as a flat 258 tokens;
+// larger images are tiled into 768px crops at 258 tokens each.
+const TOKENS_PER_IMAGE_TILE = 258;
+
+export interface ReferenceBudget {
+  maxImagesPerProfile: number;
+  maxTotalImages: number;
+  maxDimension: number; // longest side in pixels after downscaling
+}
+
+export interface ReferenceImage {
+  profileId: string;
+  dataUrl: string;
+  organ: PlantOrgan | null;
+}
+
+export const DEFAULT_REFERENCE_BUDGET: ReferenceBudget = {
+  maxImagesPerProfile: 2,
+  maxTotalImages: 24,
+  maxDimension: 384
+};
+
+export const getReferenceBudget = (): ReferenceBudget => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || 'null');
+    return saved ? { ...DEFAULT_REFERENCE_BUDGET, ...saved } : DEFAULT_REFERENCE_BUDGET;
+  } catch {
+    return DEFAULT_REFERENCE_BUDGET;
+  }
+};
+
+export const saveReferenceBudget = (budget: ReferenceBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+export const estimateImageTokens = (maxDimension: number): number => {
+  if (maxDimension <= 384) return TOKENS_PER_IMAGE_TILE;
+  const tiles = Math.ceil(maxDimension / 768);
+  return TOKENS_PER_IMAGE_TILE * tiles * tiles;
+};
+
+// Spreads picks across the profile's gallery (first, last, then the middle) so
+// the references cover different angles rather than a burst of similar shots.
+const spreadIndices = (length: number, count: number): number[] => {
+  if (count >= length) return Array.from({ length }, (_, i) => i);
+  if (count === 1) return [0];
+  return Array.from({ length: count }, (_, i) => Math.round(i * (length - 1) / (count - 1)));
+};
+
+// Chooses which training images to send. Profiles are filled round-robin, so
+// when the total budget is tight every profile still gets one reference before
+// any profile gets a second.
+export const selectReferenceImages = (profiles: PlantProfile[], budget: ReferenceBudget): ReferenceImage[] => {
+  const perProfile = profiles.map(profile => {
+    const images = getProfileImages(profile).filter(entry => entry.image);
+    return spreadIndices(images.length, Math.min(budget.maxImagesPerProfile, images.length))
+      .map(index => ({ profileId: profile.id, dataUrl: images[index].image, organ: images[index].organ }));
+  });
+
+  const selected: ReferenceImage[] = [];
+  for (let round = 0; round < budget.maxImagesPerProfile; round++) {
+    for (const picks of perProfile) {
+      if (selected.length >= budget.maxTotalImages) return selected;
+      if (picks[round]) selected.push(picks[round]);
+    }
+  }
+  return selected;
+};
+
+// Downscaled copies keyed by size and source, so repeated analyses in a session
+// don't re-encode the same training photos.
+const downscaleCache = new Map<number, Map<string, Promise<string>>>();
+
+const downscale = (dataUrl: string, maxDimension: number): Promise<string> => {
+  let bySource = downscaleCache.get(maxDimension);
+  if (!bySource) {
+    bySource = new Map();
+    downscaleCache.set(maxDimension, bySource);
+  }
+  let pending = bySource.get(dataUrl);
+  if (!pending) {
+    const cache = bySource;
+    pending = createThumbnail(dataUrl, maxDimension, 0.8);
+    pending.catch(() => cache.delete(dataUrl));
+    cache.set(dataUrl, pending);
+  }
+  return pending;
+};
+
+// Drops copies of images no profile holds any more, and of sizes the budget no
+// longer asks for. Run whenever the profile set changes.
+export const pruneReferenceImageCache = (profiles: PlantProfile[]) => {
+  const current = new Set(profiles.flatMap(p => p.images));
+  const { maxDimension } = getReferenceBudget();
+  downscaleCache.forEach((bySource, size) => {
+    if (size !== maxDimension) {
+      downscaleCache.delete(size);
+      return;
+    }
+    bySource.forEach((_, source) => {
+      if (!current.has(source)) bySource.delete(source);
+    });
+  });
+};
+
+export const prepareReferenceImages = async (profiles: PlantProfile[], budget: ReferenceBudget): Promise<ReferenceImage[]> => {
+  const selected = selectReferenceImages(profiles, budget);
+  const prepared = await Promise.all(selected.map(async ref => {
+    try {
+      return { ...ref, dataUrl: await downscale(ref.dataUrl, budget.maxDimension) };
+    } catch {
+      return null; // undecodable training image, skipped
+    }
+  }));
+  return prepared.filter((ref): ref is ReferenceImage => ref !== null);
+};
@@ -0,0 +1,91 @@
+
+import { AnalysisResult, PlantAnalysis, UNKNOWN_PLANT_NAME } from "../types";
+import { applyAuditedUpdate } from "./auditService";
+
+export type ReidentifyDecision = 'accept' | 'reject';
+
+export interface ReidentifyRow {
+  entry: PlantAnalysis;
+  result?: AnalysisResult;
+  error?: string;
+  decision?: ReidentifyDecision;
+}
+
+export interface ResultDiff {
+  nameChanged: boolean;
+  invasiveChanged: boolean;
+  confidenceDelta: number;
+  changed: boolean;
+}
+
+export interface ReidentifySummary {
+  completed: number;
+  failed: number;
+  changed: number;
+  unchanged: number;
+  newlyMatched: number; // was unknown, now matched to a profile
+  newlyUnknown: number; // was matched, now unknown
+  correctionsChecked: number; // corrected entries re-identified
+  correctionsAgreeing: number; // ...whose new result matches the human correction
+  meanConfidenceDelta: number;
+}
+
+const isUnknown = (name: string) => name === UNKNOWN_PLANT_NAME;
+
+export const diffResults = (entry: PlantAnalysis, result: AnalysisResult): ResultDiff => {
+  const nameChanged = entry.name !== result.name || (entry.matchedProfileId || '') !== (result.matchedProfileId || '');
+  const invasiveChanged = entry.isInvasive !== result.isInvasive;
+  return {
+    nameChanged,
+    invasiveChanged,
+    confidenceDelta: result.confidence - entry.confidence,
+    changed: nameChanged || invasiveChanged
+  };
+};
+
+// Scores a re-run against the original results. Corrected entries act as ground
+// truth, so agreement with corrections is the clearest sign training changes helped.
+export const summarizeReidentification = (rows: ReidentifyRow[]): ReidentifySummary => {
+  const summary: ReidentifySummary = {
+    completed: 0, failed: 0, changed: 0, unchanged: 0, newlyMatched: 0, newlyUnknown: 0,
+    correctionsChecked: 0, correctionsAgreeing: 0, meanConfidenceDelta: 0
+  };
+  let deltaSum = 0;
+
+  rows.forEach(({ entry, result, error }) => {
+    if (error) summary.failed++;
+    if (!result) return;
+    summary.completed++;
+    const diff = diffResults(entry, result);
+    if (diff.changed) summary.changed++; else summary.unchanged++;
+    if (isUnknown(entry.name) && !isUnknown(result.name)) summary.newlyMatched++;
+    if (!isUnknown(entry.name) && isUnknown(result.name)) summary.newlyUnknown++;
+    if (entry.correctedData) {
+      summary.correctionsChecked++;
+      if (entry.correctedData.name.toLowerCase() === result.name.toLowerCase()) summary.correctionsAgreeing++;
+    }
+    deltaSum += diff.confidenceDelta;
+  });
+
+  summary.meanConfidenceDelta = summary.completed > 0 ? deltaSum / summary.completed : 0;
+  return summary;
+};
+
+// Replaces the stored model result with the new one. Human corrections, flags
+// and notes are left alone.
+// A reviewer's confirm/reject judged the old answer, so it is dropped when the
+// species changes; a reassignment lives in correctedData and still stands.
+export const applyReidentification = (entry: PlantAnalysis, result: AnalysisResult): PlantAnalysis => {
+  const keepReview = entry.review?.decision === 'reassigned' || result.name === entry.name;
+  return applyAuditedUpdate(entry, {
+    ...(keepReview ? {} : { review: undefined }),
+    name: result.name,
+    scientificName: result.scientificName,
+    isInvasive: result.isInvasive,
+    confidence: result.confidence,
+    matchedProfileId: result.matchedProfileId,
+    detectedObjects: result.detectedObjects,
+    candidates: result.candidates,
+    imageHash: result.imageHash || entry.imageHash
+  }, 'Re-identified against updated training database');
+};
@@ -0,0 +1,91 @@
+
+import { AnalysisResult, IdentificationProviderId, PlantProfile } from "../types";
+import { computeImageDigest } from "./imageUtils";
+import { getProfileImages } from "./profileImages";
+import { getShortlistSize } from "./profileIndex";
+import { getReferenceBudget } from "./referenceImages";
+import { getCachedResult, putCachedResult } from "./storageService";
+
+const BYPASS_STORAGE_KEY = 'flora_bypass_result_cache';
+
+export const isCacheBypassed = (): boolean => localStorage.getItem(BYPASS_STORAGE_KEY) === 'true';
+
+export const setCacheBypassed = (bypass: boolean) => {
+  localStorage.setItem(BYPASS_STORAGE_KEY, String(bypass));
+};
+
+// Fingerprint of everything about the profile set that can change a result,
+// including each image's content digest and organ tag.
+const profileVersions = new WeakMap<PlantProfile[], Promise<string>>();
+
+// Digests of the images in the current profile set, reused across versions.
+// Rebuilt on every new version, so images of deleted profiles are dropped.
+let imageDigests = new Map<string, Promise<string>>();
+
+const digestImages = (images: string[]): Promise<string[]> => {
+  const previous = imageDigests;
+  imageDigests = new Map(images.map(image => [image, previous.get(image) || computeImageDigest(image)]));
+  return Promise.all(images.map(image => imageDigests.get(image)!));
+};
+
+const toShortHex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const getProfileSetVersion = (profiles: PlantProfile[]): Promise<string> => {
+  let version = profileVersions.get(profiles);
+  if (!version) {
+    const sorted = [...profiles].sort((a, b) => a.id.localeCompare(b.id));
+    version = digestImages(sorted.flatMap(p => p.images)).then(digests => {
+      let offset = 0;
+      const fingerprint = sorted.map(p => {
+        const images = getProfileImages(p).map(({ organ }) => `${digests[offset++]}:${organ || ''}`);
+        return [p.id, p.name, p.scientificName, p.isInvasive, ...images].join('|');
+      }).join('\n');
+      return toShortHex(fingerprint);
+    });
+    profileVersions.set(profiles, version);
+  }
+  return version;
+};
+
+// Settings that shape the request sent to network backends: how many profiles are
+// shortlisted and how many reference images each gets, at what size.
+const getRequestSettingsVersion = (): string => {
+  const budget = getReferenceBudget();
+  return `s${getShortlistSize()}-r${budget.maxImagesPerProfile}x${budget.maxTotalImages}@${budget.maxDimension}`;
+};
+
+export interface CacheKey {
+  key: string;
+  imageHash: string;
+}
+
+export const getResultCacheKey = async (
+  providerId: IdentificationProviderId,
+  imageDataUrl: string,
+  profiles: PlantProfile[],
+  knownImageHash?: string // digest already computed during upload preprocessing
+): Promise<CacheKey> => {
+  const [imageHash, version] = await Promise.all([
+    knownImageHash || computeImageDigest(imageDataUrl),
+    getProfileSetVersion(profiles)
+  ]);
+  return { key: `${providerId}:${version}:${getRequestSettingsVersion()}:${imageHash}`, imageHash };
+};
+
+// Storage failures must never fail an identification, so the cache degrades to a miss.
+export const readCachedResult = async (key: string): Promise<AnalysisResult | null> => {
+  try {
+    return (await getCachedResult(key))?.result || null;
+  } catch (err) {
+    console.warn("Result cache unavailable:", err);
+    return null;
+  }
+};
+
+export const writeCachedResult = (key: string, result: AnalysisResult) => {
+  putCachedResult({ id: key, result, createdAt: Date.now() })
+    .catch(err => console.warn("Failed to cache result:", err));
+};
@@ -0,0 +1,136 @@
+
+import { AnalysisResult, DetectedObject, MatchCandidate, PlantProfile, UNKNOWN_PLANT_NAME } from "../types";
+import { IdentificationError } from "./identificationErrors";
+
+const UNKNOWN_PROFILE_ID = 'unknown';
+const BOX_MAX = 1000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const malformed = (detail: string) => new IdentificationError('malformed', `Invalid identification response: ${detail}`);
+
+const requireString = (raw: Record<string, unknown>, field: string): string => {
+  const value = raw[field];
+  if (typeof value !== 'string') throw malformed(`"${field}" must be a string.`);
+  return value.trim();
+};
+
+// Models occasionally answer in percent; anything else outside 0-1 is rejected.
+const readConfidence = (value: unknown, field: string): number => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) throw malformed(`"${field}" must be a number.`);
+  if (number >= 0 && number <= 1) return number;
+  if (number > 1 && number <= 100) return number / 100;
+  throw malformed(`"${field}" is out of range (${number}).`);
+};
+
+const clampCoordinate = (value: unknown): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return Math.min(BOX_MAX, Math.max(0, value));
+};
+
+// Detections are advisory, so bad entries are dropped instead of failing the
+// whole identification; boxes are clamped into the 0-1000 frame.
+export const validateDetectedObjects = (value: unknown): DetectedObject[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw malformed('"detectedObjects" must be an array.');
+
+  return value.flatMap((raw): DetectedObject[] => {
+    if (!isRecord(raw) || typeof raw.label !== 'string' || !isRecord(raw.box_2d)) return [];
+    const confidence = typeof raw.confidence === 'number' && Number.isFinite(raw.confidence)
+      ? Math.min(1, Math.max(0, raw.confidence > 1 ? raw.confidence / 100 : raw.confidence))
+      : 0;
+    const ymin = clampCoordinate(raw.box_2d.ymin);
+    const xmin = clampCoordinate(raw.box_2d.xmin);
+    const ymax = clampCoordinate(raw.box_2d.ymax);
+    const xmax = clampCoordinate(raw.box_2d.xmax);
+    if (ymin === null || xmin === null || ymax === null || xmax === null) return [];
+    if (ymax <= ymin || xmax <= xmin) return [];
+    return [{ label: raw.label, confidence, box_2d: { ymin, xmin, ymax, xmax } }];
+  });
+};
+
+export const validateCandidates = (value: unknown): MatchCandidate[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw malformed('"candidates" must be an array.');
+  return value.filter(isRecord).flatMap((raw): MatchCandidate[] => {
+    if (typeof raw.profileId !== 'string') return [];
+    let confidence = 0;
+    try {
+      confidence = readConfidence(raw.confidence, 'candidates.confidence');
+    } catch {
+      return [];
+    }
+    return [{
+      profileId: raw.profileId,
+      name: typeof raw.name === 'string' ? raw.name : '',
+      scientificName: typeof raw.scientificName === 'string' ? raw.scientificName : '',
+      isInvasive: raw.isInvasive === true,
+      confidence,
+      rationale: typeof raw.rationale === 'string' ? raw.rationale : ''
+    }];
+  });
+};
+
+// Checks the shape of a provider response. Throws a 'malformed' IdentificationError
+// when a required field is missing or unusable.
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (!isRecord(raw)) throw malformed('expected a JSON object.');
+
+  const matchedProfileId = raw.matchedProfileId === undefined || raw.matchedProfileId === null
+    ? undefined
+    : requireString(raw, 'matchedProfileId');
+  if (typeof raw.isInvasive !== 'boolean') throw malformed('"isInvasive" must be a boolean.');
+
+  const result: AnalysisResult = {
+    name: requireString(raw, 'name'),
+    scientificName: requireString(raw, 'scientificName'),
+    isInvasive: raw.isInvasive,
+    confidence: readConfidence(raw.confidence, 'confidence'),
+    description: requireString(raw, 'description'),
+    matchedProfileId,
+    detectedObjects: validateDetectedObjects(raw.detectedObjects),
+    candidates: validateCandidates(raw.candidates)
+  };
+  if (!result.name) throw malformed('"name" is empty.');
+  return result;
+};
+
+// Profile data is authoritative: name, scientific name and invasive status come
+// from the matched profile, not the model's wording. A match that points at no
+// existing profile is resolved by exact name, failing that downgraded to unknown.
+export const reconcileWithProfiles = (result: AnalysisResult, profiles: PlantProfile[]): AnalysisResult => {
+  const claimsMatch = !!result.matchedProfileId && result.matchedProfileId !== UNKNOWN_PROFILE_ID;
+  if (!claimsMatch && result.name !== UNKNOWN_PLANT_NAME) {
+    const byName = profiles.find(p => p.name.toLowerCase() === result.name.toLowerCase());
+    if (byName) return reconcileWithProfiles({ ...result, matchedProfileId: byName.id }, profiles);
+  }
+
+  if (!claimsMatch) {
+    return { ...result, name: UNKNOWN_PLANT_NAME, scientificName: 'N/A', isInvasive: false, matchedProfileId: UNKNOWN_PROFILE_ID };
+  }
+
+  const profile = profiles.find(p => p.id === result.matchedProfileId)
+    || profiles.find(p => p.name.toLowerCase() === result.name.toLowerCase());
+  if (!profile) {
+    return {
+      ...result,
+      name: UNKNOWN_PLANT_NAME,
+      scientificName: 'N/A',
+      isInvasive: false,
+      confidence: 1 - result.confidence,
+      matchedProfileId: UNKNOWN_PROFILE_ID,
+      description: `${result.description} (The model referenced profile "${result.matchedProfileId}", which is not in the training database.)`
+    };
+  }
+
+  return {
+    ...result,
+    name: profile.name,
+    scientificName: profile.scientificName,
+    isInvasive: profile.isInvasive,
+    matchedProfileId: profile.id
+  };
+};
@@ -0,0 +1,113 @@
+
+import { PlantAnalysis, PlantProfile, ReviewDecision, ReviewRecord } from "../types";
+import { applyAuditedUpdate, createAuditEvent, getCurrentUser } from "./auditService";
+import { getEffectiveInvasive, isUnknownResult } from "./historyQuery";
+
+const REVIEW_SETTINGS_KEY = 'flora_review_settings';
+
+export type ReviewReason = 'low-confidence' | 'unknown' | 'invasive';
+
+export interface ReviewSettings {
+  confidenceThreshold: number; // percent; results below it are queued
+  includeUnknown: boolean;
+  includeInvasive: boolean;
+}
+
+export interface ReviewQueueItem {
+  entry: PlantAnalysis;
+  reasons: ReviewReason[];
+}
+
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  confidenceThreshold: 70,
+  includeUnknown: true,
+  includeInvasive: true
+};
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  'low-confidence': 'Low confidence',
+  unknown: 'No match',
+  invasive: 'Invasive'
+};
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  confirmed: 'Confirmed',
+  rejected: 'Rejected',
+  reassigned: 'Reassigned'
+};
+
+export const getReviewSettings = (): ReviewSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(REVIEW_SETTINGS_KEY) || 'null');
+    return saved ? { ...DEFAULT_REVIEW_SETTINGS, ...saved } : DEFAULT_REVIEW_SETTINGS;
+  } catch {
+    return DEFAULT_REVIEW_SETTINGS;
+  }
+};
+
+export const saveReviewSettings = (settings: ReviewSettings) => {
+  localStorage.setItem(REVIEW_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const isVerified = (entry: PlantAnalysis): boolean => !!entry.review;
+
+export const getReviewReasons = (entry: PlantAnalysis, settings: ReviewSettings): ReviewReason[] => {
+  const reasons: ReviewReason[] = [];
+  if (entry.confidence * 100 < settings.confidenceThreshold) reasons.push('low-confidence');
+  if (settings.includeUnknown && isUnknownResult(entry)) reasons.push('unknown');
+  if (settings.includeInvasive && getEffectiveInvasive(entry)) reasons.push('invasive');
+  return reasons;
+};
+
+// Unreviewed observations that need a human look: invasive hits first since they
+// may trigger field action, then the least confident results, oldest first on ties.
+// Corrected observations have already been checked by a person, even those
+// corrected before corrections recorded a review.
+export const buildReviewQueue = (history: PlantAnalysis[], settings: ReviewSettings): ReviewQueueItem[] => {
+  return history
+    .filter(entry => !isVerified(entry) && !entry.correctedData)
+    .map(entry => ({ entry, reasons: getReviewReasons(entry, settings) }))
+    .filter(item => item.reasons.length > 0)
+    .sort((a, b) => Number(b.reasons.includes('invasive')) - Number(a.reasons.includes('invasive'))
+      || a.entry.confidence - b.entry.confidence
+      || a.entry.timestamp - b.entry.timestamp);
+};
+
+export const createReviewRecord = (decision: ReviewDecision): ReviewRecord => ({
+  decision,
+  reviewer: getCurrentUser(),
+  reviewedAt: Date.now()
+});
+
+const recordReview = (
+  entry: PlantAnalysis,
+  decision: ReviewDecision,
+  updates: Partial<PlantAnalysis>,
+  action: string
+): PlantAnalysis => {
+  const review = createReviewRecord(decision);
+  const updated = applyAuditedUpdate(entry, { ...updates, review }, action);
+  // A confirmation changes no tracked field but still belongs in the log.
+  if (updated.changeLog !== entry.changeLog) return updated;
+  return { ...updated, changeLog: [...(entry.changeLog || []), createAuditEvent(action)] };
+};
+
+export const confirmIdentification = (entry: PlantAnalysis): PlantAnalysis => {
+  return recordReview(entry, 'confirmed', entry.isIncorrect ? { isIncorrect: false } : {}, 'Review: confirmed identification');
+};
+
+export const rejectIdentification = (entry: PlantAnalysis): PlantAnalysis => {
+  return recordReview(entry, 'rejected', { isIncorrect: true }, 'Review: rejected identification');
+};
+
+export const reassignIdentification = (entry: PlantAnalysis, profile: PlantProfile): PlantAnalysis => {
+  return recordReview(entry, 'reassigned', {
+    ...(entry.isIncorrect ? { isIncorrect: false } : {}),
+    correctedData: {
+      name: profile.name,
+      scientificName: profile.scientificName,
+      isInvasive: profile.isInvasive,
+      matchedProfileId: profile.id
+    }
+  }, `Review: reassigned to ${profile.name}`);
+};
@@ -0,0 +1,367 @@
+
+import { AnalysisResult, EvaluationRun, PlantAnalysis, PlantProfile, Survey } from "../types";
+import { ProfileImage, toProfileImageFields } from "./profileImages";
+
+const DB_NAME = 'floraid';
+const DB_VERSION = 4;
+
+const STORE_PROFILES = 'profiles';
+const STORE_OBSERVATIONS = 'observations';
+const STORE_IMAGES = 'images';
+const STORE_SURVEYS = 'surveys';
+const STORE_RESULTS = 'results';
+const STORE_EVALUATIONS = 'evaluations';
+
+const MAX_CACHED_RESULTS = 2000;
+
+const LEGACY_HISTORY_KEY = 'flora_history';
+const LEGACY_PROFILES_KEY = 'flora_profiles';
+const MIGRATION_FLAG_KEY = 'flora_idb_migrated';
+
+// Records are persisted with their images swapped out for ids into the image
+// store, so metadata updates never rewrite image data.
+type StoredProfile = Omit<PlantProfile, 'images'> & { imageIds: string[] };
+type StoredObservation = Omit<PlantAnalysis, 'imageUrl' | 'imageId'> & { imageId: string };
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+export interface CachedResult {
+  id: string; // cache key
+  result: AnalysisResult;
+  createdAt: number;
+}
+
+export interface Workspace {
+  profiles: PlantProfile[];
+  history: PlantAnalysis[];
+  surveys: Survey[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Maps every data URL currently held in memory to the id of its stored blob.
+const imageIdsByUrl = new Map<string, string>();
+// Blob writes in flight, so a URL shared by several records is stored once.
+const pendingImageIds = new Map<string, Promise<string>>();
+// Data URLs each collection referenced at its last sync; others are released from imageIdsByUrl.
+const referencedUrls = { profiles: new Set<string>(), observations: new Set<string>() };
+
+// Every sync runs after the previous one has finished, so a slow write (say, a new
+// image blob) can never land after a later write of the same record.
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [STORE_PROFILES, STORE_OBSERVATIONS, STORE_IMAGES, STORE_SURVEYS, STORE_RESULTS, STORE_EVALUATIONS].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Returns the image id for a data URL, writing the blob only the first time it is seen.
+const persistImage = (dataUrl: string): Promise<string> => {
+  // Records imported without an image keep an empty reference.
+  if (!dataUrl) return Promise.resolve('');
+  const existing = imageIdsByUrl.get(dataUrl);
+  if (existing) return Promise.resolve(existing);
+  const pending = pendingImageIds.get(dataUrl);
+  if (pending) return pending;
+
+  const write = (async () => {
+    const id = generateId();
+    const blob = await dataUrlToBlob(dataUrl);
+    const db = await openDB();
+    const tx = db.transaction(STORE_IMAGES, 'readwrite');
+    tx.objectStore(STORE_IMAGES).put({ id, blob } as StoredImage);
+    await transactionDone(tx);
+    // Only a committed blob is reused; after a failed write the next sync tries again.
+    imageIdsByUrl.set(dataUrl, id);
+    return id;
+  })().finally(() => pendingImageIds.delete(dataUrl));
+  pendingImageIds.set(dataUrl, write);
+  return write;
+};
+
+const enqueueSync = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = syncQueue.then(task);
+  syncQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Forgets the blob ids of images neither collection references any more, so the
+// data URLs of deleted images are not kept alive. Their blobs are removed on next load.
+const trackReferencedUrls = (collection: keyof typeof referencedUrls, urls: string[]) => {
+  referencedUrls[collection] = new Set(urls);
+  imageIdsByUrl.forEach((_, url) => {
+    if (!referencedUrls.profiles.has(url) && !referencedUrls.observations.has(url)) imageIdsByUrl.delete(url);
+  });
+};
+
+const toStoredProfile = async (profile: PlantProfile): Promise<StoredProfile> => {
+  const { images, ...rest } = profile;
+  const imageIds = await Promise.all(images.map(persistImage));
+  return { ...rest, imageIds };
+};
+
+const toStoredObservation = async (entry: PlantAnalysis): Promise<StoredObservation> => {
+  const { imageUrl, imageId: storedImageId, ...rest } = entry;
+  // Photos that were never loaded keep pointing at the blob they came from.
+  const imageId = imageUrl ? await persistImage(imageUrl) : storedImageId || '';
+  return { ...rest, imageId };
+};
+
+const putRecords = async <T>(storeName: string, records: T[]) => {
+  if (records.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+const deleteRecords = async (storeName: string, ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDB();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise(tx.objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+const getImageRecords = async (ids: string[]): Promise<StoredImage[]> => {
+  if (ids.length === 0) return [];
+  const db = await openDB();
+  const store = db.transaction(STORE_IMAGES, 'readonly').objectStore(STORE_IMAGES);
+  const records = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<StoredImage | undefined>)));
+  return records.filter((record): record is StoredImage => !!record);
+};
+
+export const hasObservationImage = (entry: PlantAnalysis): boolean => !!(entry.imageUrl || entry.imageId);
+
+// Full-size observation photos stay in IndexedDB and are read only when a view,
+// an identification or an export needs one. Returns '' when there is no photo.
+export const loadObservationImage = async (entry: PlantAnalysis): Promise<string> => {
+  if (entry.imageUrl || !entry.imageId) return entry.imageUrl;
+  const [record] = await getImageRecords([entry.imageId]);
+  if (!record) return '';
+  const url = await blobToDataUrl(record.blob);
+  // Lets the photo be added to a profile without storing a second copy.
+  imageIdsByUrl.set(url, record.id);
+  return url;
+};
+
+// Fills in imageUrl for exports and backups, which need every photo inline.
+export const withObservationImages = (entries: PlantAnalysis[]): Promise<PlantAnalysis[]> => {
+  return Promise.all(entries.map(async entry => entry.imageUrl || !entry.imageId
+    ? entry
+    : { ...entry, imageUrl: await loadObservationImage(entry) }));
+};
+
+export const saveProfiles = async (profiles: PlantProfile[]) => {
+  await putRecords(STORE_PROFILES, await Promise.all(profiles.map(toStoredProfile)));
+};
+
+export const deleteProfiles = (ids: string[]) => deleteRecords(STORE_PROFILES, ids);
+
+export const saveObservations = async (entries: PlantAnalysis[]) => {
+  await putRecords(STORE_OBSERVATIONS, await Promise.all(entries.map(toStoredObservation)));
+};
+
+export const deleteObservations = (ids: string[]) => deleteRecords(STORE_OBSERVATIONS, ids);
+
+// Persists only what changed between two snapshots of a collection. State updates
+// in the app are immutable, so an unchanged record keeps its object identity.
+export const diffCollection = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(item => [item.id, item]));
+  const nextIds = new Set(next.map(item => item.id));
+  return {
+    changed: next.filter(item => prevById.get(item.id) !== item),
+    removedIds: prev.filter(item => !nextIds.has(item.id)).map(item => item.id)
+  };
+};
+
+export const syncProfiles = (prev: PlantProfile[], next: PlantProfile[]) => enqueueSync(async () => {
+  const { changed, removedIds } = diffCollection(prev, next);
+  trackReferencedUrls('profiles', next.flatMap(profile => profile.images));
+  await saveProfiles(changed);
+  await deleteProfiles(removedIds);
+});
+
+export const syncObservations = (prev: PlantAnalysis[], next: PlantAnalysis[]) => enqueueSync(async () => {
+  const { changed, removedIds } = diffCollection(prev, next);
+  trackReferencedUrls('observations', next.map(entry => entry.imageUrl));
+  await saveObservations(changed);
+  await deleteObservations(removedIds);
+});
+
+export const syncSurveys = (prev: Survey[], next: Survey[]) => enqueueSync(async () => {
+  const { changed, removedIds } = diffCollection(prev, next);
+  await putRecords(STORE_SURVEYS, changed);
+  await deleteRecords(STORE_SURVEYS, removedIds);
+});
+
+export const getCachedResult = async (key: string): Promise<CachedResult | undefined> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_RESULTS, 'readonly');
+  return requestToPromise(tx.objectStore(STORE_RESULTS).get(key) as IDBRequest<CachedResult | undefined>);
+};
+
+// Writes a result and, once the cache outgrows its cap, evicts the oldest entries.
+export const putCachedResult = async (record: CachedResult) => {
+  await putRecords(STORE_RESULTS, [record]);
+  const db = await openDB();
+  const count = await requestToPromise(db.transaction(STORE_RESULTS, 'readonly').objectStore(STORE_RESULTS).count());
+  if (count <= MAX_CACHED_RESULTS) return;
+  const all = await getAll<CachedResult>(STORE_RESULTS);
+  const oldest = all.sort((a, b) => a.createdAt - b.createdAt).slice(0, count - MAX_CACHED_RESULTS);
+  await deleteRecords(STORE_RESULTS, oldest.map(r => r.id));
+};
+
+export const countCachedResults = async (): Promise<number> => {
+  const db = await openDB();
+  return requestToPromise(db.transaction(STORE_RESULTS, 'readonly').objectStore(STORE_RESULTS).count());
+};
+
+export const clearCachedResults = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_RESULTS, 'readwrite');
+  tx.objectStore(STORE_RESULTS).clear();
+  await transactionDone(tx);
+};
+
+export const saveEvaluationRun = (run: EvaluationRun) => putRecords(STORE_EVALUATIONS, [run]);
+
+export const deleteEvaluationRun = (id: string) => deleteRecords(STORE_EVALUATIONS, [id]);
+
+export const loadEvaluationRuns = async (): Promise<EvaluationRun[]> => {
+  const runs = await getAll<EvaluationRun>(STORE_EVALUATIONS);
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Copies the pre-IndexedDB localStorage snapshot into the database once, then
+// frees the localStorage quota it occupied.
+const migrateLegacyStorage = async () => {
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return;
+
+  const savedHistory = localStorage.getItem(LEGACY_HISTORY_KEY);
+  const savedProfiles = localStorage.getItem(LEGACY_PROFILES_KEY);
+  if (savedProfiles) await saveProfiles(JSON.parse(savedProfiles));
+  if (savedHistory) await saveObservations(JSON.parse(savedHistory));
+
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  localStorage.removeItem(LEGACY_PROFILES_KEY);
+  localStorage.setItem(MIGRATION_FLAG_KEY, String(Date.now()));
+};
+
+let workspacePromise: Promise<Workspace> | null = null;
+
+const readWorkspace = async (): Promise<Workspace> => {
+  await migrateLegacyStorage();
+
+  const db = await openDB();
+  const [storedProfiles, storedObservations, imageIds, surveys] = await Promise.all([
+    getAll<StoredProfile>(STORE_PROFILES),
+    getAll<StoredObservation>(STORE_OBSERVATIONS),
+    requestToPromise(db.transaction(STORE_IMAGES, 'readonly').objectStore(STORE_IMAGES).getAllKeys()) as Promise<string[]>,
+    getAll<Survey>(STORE_SURVEYS)
+  ]);
+  const storedImageIds = new Set(imageIds);
+
+  const referenced = new Set<string>([
+    ...storedProfiles.flatMap(p => p.imageIds),
+    ...storedObservations.map(o => o.imageId)
+  ]);
+
+  // Images no longer referenced by any profile or observation are removed on load.
+  const orphaned = imageIds.filter(id => !referenced.has(id));
+  await deleteRecords(STORE_IMAGES, orphaned);
+
+  // Training images are all needed for matching, so only they are decoded up front.
+  // Observation photos stay in the database until a view asks for one.
+  const urlsById = new Map<string, string>();
+  const profileImages = await getImageRecords(Array.from(new Set(storedProfiles.flatMap(p => p.imageIds))));
+  await Promise.all(profileImages.map(async img => {
+    const url = await blobToDataUrl(img.blob);
+    urlsById.set(img.id, url);
+    imageIdsByUrl.set(url, img.id);
+  }));
+
+  // Organ tags are positional, so they are dropped together with any missing image.
+  const profiles: PlantProfile[] = storedProfiles.map(({ imageIds, imageOrgans, ...rest }) => {
+    const kept = imageIds
+      .map((id, i) => ({ image: urlsById.get(id), organ: imageOrgans?.[i] ?? null }))
+      .filter((entry): entry is ProfileImage => !!entry.image);
+    return { ...rest, ...toProfileImageFields(kept) };
+  });
+  const history: PlantAnalysis[] = storedObservations.map(({ imageId, ...rest }) => ({
+    ...rest,
+    imageUrl: '',
+    ...(storedImageIds.has(imageId) ? { imageId } : {})
+  }));
+
+  referencedUrls.profiles = new Set(profiles.flatMap(profile => profile.images));
+  referencedUrls.observations = new Set();
+
+  // Both lists are displayed newest first, matching how the app prepends new records.
+  profiles.sort((a, b) => b.dateCreated - a.dateCreated);
+  history.sort((a, b) => b.timestamp - a.timestamp);
+  surveys.sort((a, b) => b.startTime - a.startTime);
+
+  return { profiles, history, surveys };
+};
+
+export const loadWorkspace = (): Promise<Workspace> => {
+  if (!workspacePromise) workspacePromise = readWorkspace();
+  return workspacePromise;
+};
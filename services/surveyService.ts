@@ -0,0 +1,34 @@
+
+import { PlantAnalysis, Survey } from "../types";
+
+const ACTIVE_SURVEY_STORAGE_KEY = 'flora_active_survey';
+
+// Filter value for observations recorded outside of any survey.
+export const UNASSIGNED_SURVEY = '__unassigned__';
+
+export const filterBySurvey = (history: PlantAnalysis[], surveyFilter: string | null): PlantAnalysis[] => {
+  if (!surveyFilter) return history;
+  if (surveyFilter === UNASSIGNED_SURVEY) return history.filter(item => !item.surveyId);
+  return history.filter(item => item.surveyId === surveyFilter);
+};
+
+export const createSurvey = (fields: Pick<Survey, 'name' | 'site' | 'observers' | 'notes'>): Survey => ({
+  id: Math.random().toString(36).substr(2, 9),
+  ...fields,
+  startTime: Date.now(),
+  status: 'active'
+});
+
+export const getSavedActiveSurveyId = (): string | null => localStorage.getItem(ACTIVE_SURVEY_STORAGE_KEY);
+
+export const saveActiveSurveyId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_SURVEY_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_SURVEY_STORAGE_KEY);
+  }
+};
+
+export const formatSurveyLabel = (survey: Survey): string => {
+  return `${survey.name}${survey.site ? ` · ${survey.site}` : ''} (${new Date(survey.startTime).toLocaleDateString()})`;
+};
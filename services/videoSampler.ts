@@ -0,0 +1,132 @@
+
+export type FrameSamplingMode = 'interval' | 'scene';
+
+export interface FrameSamplingOptions {
+  mode: FrameSamplingMode;
+  intervalSeconds: number;
+  // Mean per-pixel luminance difference (0-255) that counts as a scene change.
+  sceneThreshold: number;
+  maxDimension: number;
+}
+
+export interface SampledFrame {
+  time: number;
+  dataUrl: string;
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: FrameSamplingOptions = {
+  mode: 'interval',
+  intervalSeconds: 2,
+  sceneThreshold: 18,
+  maxDimension: 1280
+};
+
+// In scene mode the video is scanned at this step and only changed frames are kept.
+const SCENE_SCAN_STEP_SECONDS = 0.5;
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+
+const waitForEvent = (target: HTMLVideoElement, event: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error("Unable to decode video file.")); };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+};
+
+const seekTo = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+export const createSignatureContext = (): CanvasRenderingContext2D | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  return canvas.getContext('2d', { willReadFrequently: true });
+};
+
+// Downscaled grayscale thumbnail used to compare consecutive frames.
+export const computeSignature = (ctx: CanvasRenderingContext2D, source: CanvasImageSource): Uint8Array => {
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < signature.length; i++) {
+    signature[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return signature;
+};
+
+export const signatureDistance = (a: Uint8Array, b: Uint8Array): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+export const formatFrameTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Decodes a video file off-screen and yields frames at the requested sampling.
+// The consumer may stop early by returning false from onFrame.
+export const sampleVideoFrames = async (
+  file: File,
+  options: FrameSamplingOptions,
+  onFrame: (frame: SampledFrame, duration: number) => Promise<boolean | void>
+): Promise<void> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+
+    const duration = video.duration;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error("Video has no readable duration.");
+    }
+
+    const scale = Math.min(1, options.maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+
+    const signatureCtx = createSignatureContext();
+    if (!ctx || !signatureCtx) throw new Error("Canvas rendering is not available.");
+
+    const step = options.mode === 'scene' ? SCENE_SCAN_STEP_SECONDS : Math.max(0.1, options.intervalSeconds);
+    let lastSignature: Uint8Array | null = null;
+
+    for (let time = 0; time < duration; time += step) {
+      await seekTo(video, time);
+
+      if (options.mode === 'scene') {
+        const signature = computeSignature(signatureCtx, video);
+        const isChange = !lastSignature || signatureDistance(signature, lastSignature) >= options.sceneThreshold;
+        if (!isChange) continue;
+        lastSignature = signature;
+      }
+
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const keepGoing = await onFrame({ time, dataUrl: canvas.toDataURL('image/jpeg', 0.9) }, duration);
+      if (keepGoing === false) break;
+    }
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -1,10 +1,15 @@
 
+export type PlantOrgan = 'leaf' | 'flower' | 'fruit' | 'bark' | 'habit';
+
+export const PLANT_ORGANS: PlantOrgan[] = ['leaf', 'flower', 'fruit', 'bark', 'habit'];
+
 export interface PlantProfile {
   id: string;
   name: string;
   scientificName: string;
   isInvasive: boolean;
-  images: string[]; // Array of base64 images
+  images: string[]; // Array of base64 images; the first is the cover
+  imageOrgans?: (PlantOrgan | null)[]; // organ shown in each image, by index into images
   description: string;
   dateCreated: number;
 }
@@ -22,6 +27,38 @@ export interface DetectedObject {
   box_2d: BoundingBox;
 }
 
+export interface AuditChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface AuditEvent {
+  timestamp: number;
+  user: string;
+  action: string;
+  changes: AuditChange[];
+}
+
+// One ranked alternative from an identification, resolved against a training profile.
+export interface MatchCandidate {
+  profileId: string;
+  name: string;
+  scientificName: string;
+  isInvasive: boolean;
+  confidence: number;
+  rationale: string;
+}
+
+export type ReviewDecision = 'confirmed' | 'rejected' | 'reassigned';
+
+// Outcome of a human check of the model's identification.
+export interface ReviewRecord {
+  decision: ReviewDecision;
+  reviewer: string;
+  reviewedAt: number;
+}
+
 export interface PlantAnalysis {
   id: string;
   name: string;
@@ -34,7 +71,9 @@ export interface PlantAnalysis {
     lat: number;
     lng: number;
   };
-  imageUrl: string;
+  imageUrl: string; // '' for stored photos until loaded; see imageId
+  imageId?: string; // stored photo, read on demand with loadObservationImage
+  thumbnailUrl?: string;
   matchedProfileId?: string;
   isFavorite?: boolean;
   isIncorrect?: boolean;
@@ -42,8 +81,44 @@ export interface PlantAnalysis {
     name: string;
     scientificName: string;
     isInvasive: boolean;
+    matchedProfileId?: string; // set when the correction picked an existing profile
   };
   detectedObjects?: DetectedObject[];
+  candidates?: MatchCandidate[]; // ranked best-first
+  imageHash?: string; // SHA-256 of the image bytes, shared by duplicate photos
+  notes?: string;
+  tags?: string[];
+  changeLog?: AuditEvent[];
+  surveyId?: string;
+  videoSource?: {
+    videoId: string;
+    fileName: string;
+    frameTime: number; // seconds into the video
+  };
+  deletedAt?: number; // set while the observation sits in the trash
+  review?: ReviewRecord;
+}
+
+export type SurveyStatus = 'active' | 'closed' | 'archived';
+
+export interface Survey {
+  id: string;
+  name: string;
+  site: string;
+  observers: string[];
+  startTime: number;
+  endTime?: number;
+  notes: string;
+  status: SurveyStatus;
+}
+
+export interface VideoSpeciesDetection {
+  name: string;
+  scientificName: string;
+  isInvasive: boolean;
+  matchedProfileId?: string;
+  frameTimes: number[];
+  maxConfidence: number;
 }
 
 export enum AppView {
@@ -51,9 +126,44 @@ export enum AppView {
   ANALYZE = 'ANALYZE',
   TRAINING = 'TRAINING',
   HISTORY = 'HISTORY',
-  MAP = 'MAP'
+  MAP = 'MAP',
+  REVIEW = 'REVIEW',
+  EVALUATION = 'EVALUATION'
 }
 
+// Class label used in evaluations for "not in the training database".
+export const UNKNOWN_CLASS = 'unknown';
+
+export interface EvaluationSample {
+  fileName: string;
+  expectedLabel: string; // folder name the image was filed under
+  expectedClass: string; // profile id, or UNKNOWN_CLASS when the label matches no profile
+  predictedClass?: string;
+  predictedName?: string;
+  confidence?: number;
+  latencyMs?: number;
+  error?: string;
+  inTrainingSet?: boolean; // identical to a training image, so left out of the metrics
+}
+
+export interface EvaluationRun {
+  id: string;
+  name: string;
+  createdAt: number;
+  providerId: IdentificationProviderId;
+  providerLabel: string;
+  profileCount: number;
+  classNames: Record<string, string>; // class id -> display name at the time of the run
+  samples: EvaluationSample[];
+  stopped?: boolean; // cancelled before every sample was evaluated
+}
+
+// Name the identification backends report when a specimen matches no profile.
+export const UNKNOWN_PLANT_NAME = "No Database Match Found";
+
+// Placeholder scientific name for profiles created from a folder upload.
+export const PENDING_SCIENTIFIC_NAME = "Pending Scientific Classification";
+
 export interface AnalysisResult {
   name: string;
   scientificName: string;
@@ -62,4 +172,17 @@ export interface AnalysisResult {
   description: string;
   matchedProfileId?: string;
   detectedObjects?: DetectedObject[];
+  candidates?: MatchCandidate[];
+  imageHash?: string;
+  fromCache?: boolean;
+}
+
+export type IdentificationProviderId = 'gemini' | 'local' | 'mock';
+
+export interface IdentificationProvider {
+  id: IdentificationProviderId;
+  label: string;
+  description: string;
+  requiresNetwork: boolean;
+  analyze: (base64Image: string, profiles: PlantProfile[]) => Promise<AnalysisResult>;
 }